@@ -1,12 +1,124 @@
-import { App, Editor, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, Setting, TFile, WorkspaceLeaf } from 'obsidian';
+import { App, debounce, Editor, EventRef, FuzzySuggestModal, getAllTags, MarkdownFileInfo, MarkdownView, Menu, Modal, normalizePath, Notice, parseLinktext, Plugin, PluginSettingTab, Setting, SuggestModal, TAbstractFile, TFile, TFolder, View } from 'obsidian';
+
+// Canvas views trigger this when a node's context menu opens, the API doesn't declare it
+declare module 'obsidian' {
+	interface Workspace {
+		on(name: 'canvas:node-menu', callback: (menu: Menu, node: CanvasNodeLike) => unknown, ctx?: unknown): EventRef;
+	}
+}
 
 interface CanvasAutoGenSettings {
 	autoGenerateOnOpen: boolean;
 	autoOpenCanvas: boolean;
 	canvasWidth: number;
 	canvasHeight: number;
-	linkDepth: number;
-	autoExpandCanvas: boolean; // New setting for automatic expansion
+	linkDepth: number; // Levels of forward links
+	backlinkDepth: number; // Levels of backlinks
+	linkDirection: LinkDirection; // Which links are followed from each note
+	showExpandHandles: boolean; // Show expand handles on the edges of canvas nodes
+	refreshExistingCanvas: boolean; // Refresh an existing canvas instead of only opening it
+	staleNodeAction: 'flag' | 'remove'; // What a refresh does with nodes whose links are gone
+	liveSyncCanvases: boolean; // Update open generated canvases when their notes change
+	defaultLayout: LayoutId; // Layout engine used unless overridden for a single generation
+	layerOrdering: LayerOrdering; // How nodes are ordered within each layer
+	filters: TraversalFilters; // Which notes are drawn and traversed
+	includeAttachments: boolean; // Draw linked images, PDFs and other files
+	includeCanvases: boolean; // Draw linked canvases
+	includeUnresolvedLinks: boolean; // Draw placeholders for links to notes that don't exist yet
+	templateFolder: string; // Where to look for templates when a placeholder becomes a note
+	linkGranularity: 'note' | 'section'; // Whether heading and block links get their own nodes
+	splitCenterNote: boolean; // Show the center note as one node per heading
+	edgeLabels: EdgeLabelMode; // What generated edges are labeled with
+	edgeWeightColors: boolean; // Color edges by how often the link occurs
+	colorRules: string[]; // `folder:People/** -> 2`, `tag:project -> green`, `type: person -> #ff8800`
+	groupBy: 'none' | 'folder' | 'property'; // Wrap nodes that share a folder or property in a group
+	groupProperty: string; // Frontmatter property used when grouping by property
+	outputFolder: string; // Where canvases are created, empty means next to the note
+	canvasNameTemplate: string; // Canvas file name, `{{basename}}` is the note's name
+	maxPathLength: number; // Longest path, in links, searched between two notes
+	pathCount: number; // How many shortest paths to draw, 0 draws every path of the shortest length
+	overviewNodeBudget: number; // Most nodes drawn on the vault overview, the notes that don't fit are summarised per cluster
+	relatedHeading: string; // Heading that links written back from canvas edges are added under
+	reportDeletedEdges: boolean; // List links whose edges were deleted from the canvas when syncing edges
+	maxCanvasNodes: number; // Traversal stops once a canvas has this many notes
+	profiles: GenerationProfile[]; // Named option sets offered by "Generate Canvas with Profile..."
+}
+
+type EdgeLabelMode = 'none' | 'count' | 'alias' | 'context';
+
+// Include/exclude rules applied while walking the link graph
+interface TraversalFilters {
+	includeFolders: string[]; // Folder globs, empty means every folder
+	excludeFolders: string[];
+	includeTags: string[]; // Tags without '#', nested tags match their parent
+	excludeTags: string[];
+	propertyConditions: string[]; // Frontmatter conditions such as `status != archived`
+	traverseExcluded: boolean; // Follow links through excluded notes without drawing them
+}
+
+// 'outgoing' follows links a note makes, 'incoming' follows its backlinks
+type LinkDirection = 'both' | 'outgoing' | 'incoming';
+
+const LINK_DIRECTIONS: Array<{id: LinkDirection, name: string}> = [
+	{ id: 'both', name: 'Links and backlinks' },
+	{ id: 'outgoing', name: 'Downstream only (links of links)' },
+	{ id: 'incoming', name: 'Upstream only (backlinks of backlinks)' }
+];
+
+// Settings that decide how generated nodes and edges look, which a profile can change for its canvases
+type CanvasStyling = Pick<CanvasAutoGenSettings, 'colorRules' | 'groupBy' | 'groupProperty' | 'edgeLabels' | 'edgeWeightColors'>;
+
+// Where the seeds of a multi-seed canvas come from, stored so a refresh can find them again
+type SeedSource =
+	| { kind: 'files', paths: string[] }
+	| { kind: 'folder', path: string }
+	| { kind: 'tag', tag: string }
+	| { kind: 'query', query: string };
+
+// A link between two notes that a canvas edge stands for
+interface EdgeLink {
+	source: TFile;
+	target: TFile;
+	subpath: string;
+}
+
+// State of a running link traversal, shared by its recursive steps
+interface TraversalProgress {
+	limit: number; // Most nodes the traversal adds
+	truncated: boolean; // Whether notes were left out because of the limit
+	started: number;
+	chunkStart: number;
+	notice: Notice | null;
+}
+
+// Options for a single canvas generation, defaulting to the plugin settings
+interface GenerationOptions {
+	forwardDepth: number;
+	backlinkDepth: number;
+	direction: LinkDirection;
+	layout: LayoutId;
+	filters: TraversalFilters;
+	styling: CanvasStyling;
+	outputFolder: string;
+	canvasNameTemplate: string;
+	maxPathLength: number;
+	pathCount: number;
+	profile?: string; // Name of the profile the options came from
+}
+
+// Generation options as a canvas records them. They are read back from the file, so every field
+// is checked before it is used. Overviews record their budget, older canvases a single depth.
+interface StoredGenerationOptions extends Partial<Omit<GenerationOptions, 'filters' | 'styling'>> {
+	filters?: Partial<TraversalFilters>;
+	styling?: Partial<CanvasStyling>;
+	budget?: number;
+	depth?: number;
+}
+
+// Named generation options, anything a profile leaves out comes from the settings
+interface GenerationProfile extends Partial<Omit<GenerationOptions, 'styling' | 'profile'>> {
+	name: string;
+	styling?: Partial<CanvasStyling>;
 }
 
 const DEFAULT_SETTINGS: CanvasAutoGenSettings = {
@@ -15,1031 +127,5944 @@ const DEFAULT_SETTINGS: CanvasAutoGenSettings = {
 	canvasWidth: 800,
 	canvasHeight: 600,
 	linkDepth: 1, // Default to 1 level of depth
-	autoExpandCanvas: true // Enable automatic expansion by default
+	backlinkDepth: 1,
+	linkDirection: 'both',
+	showExpandHandles: false,
+	refreshExistingCanvas: true,
+	staleNodeAction: 'flag',
+	liveSyncCanvases: false,
+	defaultLayout: 'layered',
+	layerOrdering: 'barycenter',
+	filters: {
+		includeFolders: [],
+		excludeFolders: [],
+		includeTags: [],
+		excludeTags: [],
+		propertyConditions: [],
+		traverseExcluded: false
+	},
+	includeAttachments: false,
+	includeCanvases: false,
+	includeUnresolvedLinks: false,
+	templateFolder: '',
+	linkGranularity: 'note',
+	splitCenterNote: false,
+	edgeLabels: 'none',
+	edgeWeightColors: false,
+	colorRules: [],
+	groupBy: 'none',
+	groupProperty: 'type',
+	outputFolder: '',
+	canvasNameTemplate: '{{basename}}_canvas',
+	maxPathLength: 6,
+	pathCount: 0,
+	overviewNodeBudget: 200,
+	relatedHeading: '## Related',
+	reportDeletedEdges: true,
+	maxCanvasNodes: 500,
+	profiles: [
+		{ name: 'Quick local map', forwardDepth: 1, backlinkDepth: 1, direction: 'both', layout: 'radial' },
+		{ name: 'Deep research map', forwardDepth: 3, direction: 'outgoing', layout: 'layered', styling: { edgeLabels: 'context' }, canvasNameTemplate: '{{basename}} research' },
+		{ name: 'Upstream map', backlinkDepth: 3, direction: 'incoming', layout: 'layered', canvasNameTemplate: '{{basename}} upstream' }
+	]
 }
 
-export default class CanvasAutoGenPlugin extends Plugin {
-	settings: CanvasAutoGenSettings;
+// How long to wait after the last vault change before live-synced canvases are rewritten
+const LIVE_SYNC_DELAY = 2000;
 
-	async onload() {
-		await this.loadSettings();
+// Traversals yield to the UI after this many milliseconds, and show progress once they take longer than the delay
+const TRAVERSAL_CHUNK_MS = 30;
+const TRAVERSAL_PROGRESS_DELAY = 500;
 
-		// Add ribbon icon for manual canvas generation
-		const ribbonIconEl = this.addRibbonIcon('canvas', 'Generate Canvas for Active Note', (evt: MouseEvent) => {
-			this.generateCanvasForActiveNote();
-		});
-		ribbonIconEl.addClass('canvas-auto-gen-ribbon-class');
+// Seeds of a multi-seed canvas are colored so they stand out as roots
+const ROOT_COLOR = '6';
+const MAX_SEEDS = 50;
 
-		// Add command for manual canvas generation
-		this.addCommand({
-			id: 'generate-canvas-for-active-note',
-			name: 'Generate Canvas for Active Note',
-			callback: () => {
-				this.generateCanvasForActiveNote();
-			}
-		});
+// Space between the clusters of a multi-seed canvas
+const CLUSTER_GAP = 300;
 
-		// Add command that only works when a markdown file is active
-		this.addCommand({
-			id: 'generate-canvas-for-active-note-complex',
-			name: 'Generate Canvas for Active Note (Complex)',
-			checkCallback: (checking: boolean) => {
-				const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
-				if (markdownView) {
-					if (!checking) {
-						this.generateCanvasForActiveNote();
-					}
-					return true;
-				}
-				return false;
-			}
-		});
+// Label propagation rounds before the vault overview settles for the clusters it has
+const CLUSTER_ROUNDS = 20;
 
-		// Add command to generate canvas for any file
-		this.addCommand({
-			id: 'generate-canvas-for-file',
-			name: 'Generate Canvas for File',
-			callback: () => {
-				this.generateCanvasForActiveNote();
-			}
-		});
+// Strongest links drawn from each cluster to other clusters on the vault overview
+const CLUSTER_LINKS = 3;
 
-		// Add command to manually trigger canvas expansion
-		this.addCommand({
-			id: 'expand-canvas-manually',
-			name: 'Expand Canvas Manually',
-			callback: () => {
-				this.expandCanvasManually();
-			}
-		});
+// Notes named in the summary node of a cluster that didn't fit the node budget
+const SUMMARY_NAMES = 10;
+const SUMMARY_WIDTH = 400;
+const SUMMARY_HEIGHT = 200;
 
-		// Note: Canvas context menu integration requires Obsidian API support
-		// This feature will be available when the API supports it
+// Upper bound on the number of equally short paths drawn between two notes
+const MAX_SHORTEST_PATHS = 50;
 
-		// Auto-generate canvas when opening files (if enabled)
-		if (this.settings.autoGenerateOnOpen) {
-			this.registerEvent(
-				this.app.workspace.on('file-open', (file: TFile | null) => {
-					if (file && file.extension === 'md') {
-						// Small delay to ensure the file is fully loaded
-						setTimeout(() => {
-							this.generateCanvasForActiveNote();
-						}, 100);
-					}
-				})
-			);
-		}
+// How often a canvas change is retried when the canvas changes underneath it
+const MUTATION_ATTEMPTS = 3;
+
+// Snapshots kept per canvas for undo, stored next to the plugin's data.json
+const HISTORY_LIMIT = 20;
+const HISTORY_FILE = 'history.json';
+
+// One undoable change to a canvas, with the file content before and after it
+interface CanvasHistoryEntry {
+	operation: string;
+	time: string;
+	before: string | null; // null when the operation created the canvas
+	after: string;
+	added: number;
+	removed: number;
+}
+
+interface CanvasHistory {
+	undo: CanvasHistoryEntry[];
+	redo: CanvasHistoryEntry[];
+}
+
+// Canvas color used to flag nodes and edges whose links disappeared on refresh
+const STALE_COLOR = '1';
+
+// Size of the text nodes that stand in for unresolved links
+const PLACEHOLDER_WIDTH = 260;
+const PLACEHOLDER_HEIGHT = 60;
+
+// Height of nodes that show a single heading or block of a note
+const SECTION_HEIGHT = 140;
+
+// Edge colors for frequently repeated links, checked from the highest bucket down
+const EDGE_WEIGHT_BUCKETS = [
+	{ minCount: 7, color: '6' },
+	{ minCount: 4, color: '5' },
+	{ minCount: 2, color: '4' }
+];
+
+// Maximum length of the sentence shown as link context on an edge
+const CONTEXT_LENGTH = 80;
+
+// Space between a group's border and its nodes, and between nodes inside a group
+const GROUP_PADDING = 40;
+const GROUP_GAP = 40;
+
+const CANVAS_COLOR_NAMES: Record<string, string> = {
+	red: '1',
+	orange: '2',
+	yellow: '3',
+	green: '4',
+	cyan: '5',
+	purple: '6'
+};
+
+// JSON Canvas (https://jsoncanvas.org). Fields this plugin doesn't know about stay on the objects
+// and are written back unchanged, and so do nodes of other types, which the plugin leaves alone.
+type CanvasColor = string; // Preset '1' to '6' or a hex color such as '#ff8800'
+type CanvasSide = 'top' | 'right' | 'bottom' | 'left';
+type CanvasEnd = 'none' | 'arrow';
+
+interface CanvasNodeBase {
+	id: string;
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+	color?: CanvasColor;
+}
+
+interface CanvasFileNode extends CanvasNodeBase {
+	type: 'file';
+	file: string;
+	subpath?: string; // '#Heading' or '#^block'
+}
+
+interface CanvasTextNode extends CanvasNodeBase {
+	type: 'text';
+	text: string;
+}
+
+interface CanvasLinkNode extends CanvasNodeBase {
+	type: 'link';
+	url: string;
+}
+
+interface CanvasGroupNode extends CanvasNodeBase {
+	type: 'group';
+	label?: string;
+	background?: string;
+	backgroundStyle?: 'cover' | 'ratio' | 'repeat';
+}
+
+// Nodes of types from other plugins, kept with all their fields but otherwise left alone
+interface CanvasUnknownNode extends CanvasNodeBase {
+	type: string;
+	[key: string]: unknown;
+}
+
+type CanvasNode = CanvasFileNode | CanvasTextNode | CanvasLinkNode | CanvasGroupNode | CanvasUnknownNode;
+
+type CanvasRect = { x: number, y: number, width: number, height: number };
+
+interface CanvasEdge {
+	id: string;
+	fromNode: string;
+	fromSide?: CanvasSide;
+	fromEnd?: CanvasEnd; // Defaults to 'none'
+	toNode: string;
+	toSide?: CanvasSide;
+	toEnd?: CanvasEnd; // Defaults to 'arrow'
+	color?: CanvasColor;
+	label?: string;
+}
+
+// What the plugin records about a canvas it generated
+interface CanvasAutoGenState {
+	source?: string; // Center note
+	target?: string; // Second note of a path canvas
+	seeds?: string[];
+	seedSource?: SeedSource;
+	overview?: boolean;
+	truncated?: boolean;
+	stale?: string[]; // Nodes and edges flagged because their links are gone
+	version?: string;
+	options?: StoredGenerationOptions;
+	generated?: Record<string, string>; // Geometry and color each generated node was given
+	generatedEdges?: Record<string, string>; // Ends and color each generated edge was given
+}
+
+interface CanvasData {
+	nodes: CanvasNode[];
+	edges: CanvasEdge[];
+	meta: {
+		created?: string;
+		modified?: string;
+		canvasAutoGen?: CanvasAutoGenState;
+	};
+}
+
+// The parts of Obsidian's canvas view the plugin uses, the API doesn't declare them
+interface CanvasNodeLike {
+	id: string;
+	nodeEl?: HTMLElement;
+	getData(): CanvasNode;
+}
+
+interface CanvasLike {
+	nodes: Map<string, CanvasNodeLike>;
+	selection: Set<CanvasNodeLike>;
+	getData(): Pick<CanvasData, 'nodes' | 'edges'>;
+	setData(data: Pick<CanvasData, 'nodes' | 'edges'>): void;
+	requestSave(): void;
+}
+
+// Canvas and markdown views both show a file, only canvas views have a canvas
+interface CanvasViewLike extends View {
+	file: TFile | null;
+	canvas?: CanvasLike;
+}
+
+class CanvasParseError extends Error {
+	problems: string[];
+
+	constructor(problems: string[]) {
+		super(`Invalid canvas: ${problems[0]}${problems.length > 1 ? ` (and ${problems.length - 1} more ${problems.length > 2 ? 'problems' : 'problem'})` : ''}`);
+		this.name = 'CanvasParseError';
+		this.problems = problems;
+	}
+}
+
+// Check that parsed JSON has the structure of a JSON Canvas. Missing node and edge lists and meta are filled in,
+// nodes without an id or geometry and edges between missing nodes are reported rather than guessed at.
+// Values the plugin only passes through, such as colors or sides, are not checked.
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateCanvasData(raw: unknown): CanvasData {
+	if (!isJsonObject(raw)) {
+		throw new CanvasParseError(['the file is not a JSON object']);
+	}
+	const data = raw;
+	if (data.nodes === undefined) data.nodes = [];
+	if (data.edges === undefined) data.edges = [];
+	if (!isJsonObject(data.meta)) data.meta = {};
 
-		// Note: Automatic canvas expansion is disabled due to API limitations
-		// Use the "Expand Canvas Manually" command instead
+	const problems: string[] = [];
+	const nodes = data.nodes;
+	const edges = data.edges;
+	if (!Array.isArray(nodes)) problems.push('"nodes" is not a list');
+	if (!Array.isArray(edges)) problems.push('"edges" is not a list');
+	if (!Array.isArray(nodes) || !Array.isArray(edges)) throw new CanvasParseError(problems);
 
-		// Add automatic canvas expansion if enabled
-		if (this.settings.autoExpandCanvas) {
-			this.setupAutomaticExpansion();
+	const nodeIds = new Set<string>();
+	nodes.forEach((node: unknown, i: number) => {
+		if (!isJsonObject(node)) {
+			problems.push(`node ${i + 1} is not an object`);
+			return;
 		}
+		const id = node.id;
+		const name = typeof id === 'string' ? `node ${id}` : `node ${i + 1}`;
+		if (typeof id !== 'string' || id === '') problems.push(`${name} has no id`);
+		else if (nodeIds.has(id)) problems.push(`${name} is used more than once`);
+		else nodeIds.add(id);
+		for (const key of ['x', 'y', 'width', 'height']) {
+			const value = node[key];
+			if (typeof value !== 'number' || !isFinite(value)) problems.push(`${name} has no valid ${key}`);
+		}
+		if (typeof node.type !== 'string') problems.push(`${name} has no type`);
+		if (node.type === 'file' && typeof node.file !== 'string') problems.push(`${name} is a file node without a file`);
+		if (node.type === 'text' && typeof node.text !== 'string') problems.push(`${name} is a text node without text`);
+		if (node.type === 'link' && typeof node.url !== 'string') problems.push(`${name} is a link node without a url`);
+	});
 
-		// Add settings tab
-		this.addSettingTab(new CanvasAutoGenSettingTab(this.app, this));
+	const edgeIds = new Set<string>();
+	edges.forEach((edge: unknown, i: number) => {
+		if (!isJsonObject(edge)) {
+			problems.push(`edge ${i + 1} is not an object`);
+			return;
+		}
+		const id = edge.id;
+		const name = typeof id === 'string' ? `edge ${id}` : `edge ${i + 1}`;
+		if (typeof id !== 'string' || id === '') problems.push(`${name} has no id`);
+		else if (edgeIds.has(id)) problems.push(`${name} is used more than once`);
+		else edgeIds.add(id);
+		if (typeof edge.fromNode !== 'string' || !nodeIds.has(edge.fromNode)) problems.push(`${name} starts at a node that doesn't exist`);
+		if (typeof edge.toNode !== 'string' || !nodeIds.has(edge.toNode)) problems.push(`${name} ends at a node that doesn't exist`);
+	});
+
+	if (problems.length > 0) throw new CanvasParseError(problems);
+	return data as unknown as CanvasData;
+}
+
+function parseCanvas(content: string): CanvasData {
+	// A canvas created in Obsidian starts out as an empty file
+	if (content.trim() === '') return { nodes: [], edges: [], meta: {} };
+	let raw: unknown;
+	try {
+		raw = JSON.parse(content);
+	} catch (e) {
+		throw new CanvasParseError([`the file is not valid JSON (${e instanceof Error ? e.message : e})`]);
 	}
+	return validateCanvasData(raw);
+}
 
-	onunload() {
-		// Cleanup if needed
+function isFileNode(node: CanvasNode): node is CanvasFileNode {
+	return node.type === 'file';
+}
+
+function isTextNode(node: CanvasNode): node is CanvasTextNode {
+	return node.type === 'text';
+}
+
+function isLinkNode(node: CanvasNode): node is CanvasLinkNode {
+	return node.type === 'link';
+}
+
+function isGroupNode(node: CanvasNode): node is CanvasGroupNode {
+	return node.type === 'group';
+}
+
+function serializeCanvas(canvasData: CanvasData): string {
+	return JSON.stringify(canvasData, null, 2);
+}
+
+// Small non-cryptographic hash (two FNV-1a passes) used to derive stable IDs from file paths
+function hashString(value: string): string {
+	let h1 = 0x811c9dc5;
+	let h2 = 0x01000193;
+	for (let i = 0; i < value.length; i++) {
+		const code = value.charCodeAt(i);
+		h1 = Math.imul(h1 ^ code, 0x01000193);
+		h2 = Math.imul(h2 ^ code, 0x5bd1e995);
 	}
+	const hex = (n: number) => ('00000000' + (n >>> 0).toString(16)).slice(-8);
+	return hex(h1) + hex(h2);
+}
 
-	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+type LinkGraphNode = {file: TFile, level: number, isBacklink: boolean};
+
+type LayoutId = 'layered' | 'radial' | 'tree' | 'force' | 'grid';
+
+type LayerOrdering = 'alphabetical' | 'barycenter' | 'median';
+
+// A single link from one note to another as found in the metadata cache
+interface LinkReference {
+	subpath: string; // '#Heading' or '#^block', empty for the whole note
+	line: number;
+	start: number; // Offsets of the link in the source note
+	end: number;
+	alias?: string; // Display text of [[Note|alias]]
+}
+
+// Number of alternating sweeps used when reordering layers to reduce edge crossings
+const ORDERING_SWEEPS = 8;
+
+// How many hidden notes in a row expansion will look through to find a visible neighbour
+const MAX_HIDDEN_HOPS = 3;
+
+interface LayoutInput {
+	centerFile: TFile;
+	nodes: LinkGraphNode[];
+	connections: Map<string, Set<string>>;
+	layers: LinkGraphNode[][]; // Ordered layers from organizeNodesIntoLayers, left to right
+	originX: number; // Position of the center node
+	originY: number;
+}
+
+// A layout engine turns the nodes/connections model into node positions keyed by file path
+interface LayoutEngine {
+	id: LayoutId;
+	name: string;
+	description: string;
+	layout(input: LayoutInput): Map<string, {x: number, y: number}>;
+}
+
+const NODE_WIDTH = 300;
+const NODE_HEIGHT = 200;
+const HORIZONTAL_SPACING = 450; // Space between layers
+const VERTICAL_SPACING = 280; // Space between nodes in same layer
+
+const LAYOUT_ENGINES: LayoutEngine[] = [
+	{
+		id: 'layered',
+		name: 'Layered',
+		description: 'Backlinks in columns to the left, forward links to the right',
+		layout: layeredLayout
+	},
+	{
+		id: 'radial',
+		name: 'Radial',
+		description: 'Center note in the middle, one ring per level',
+		layout: radialLayout
+	},
+	{
+		id: 'tree',
+		name: 'Tree',
+		description: 'Top-down tree with backlinks above and forward links below',
+		layout: treeLayout
+	},
+	{
+		id: 'force',
+		name: 'Force-directed',
+		description: 'Linked notes attract, all notes repel (deterministic)',
+		layout: forceLayout
+	},
+	{
+		id: 'grid',
+		name: 'Grid',
+		description: 'Compact grid with the closest notes nearest the center',
+		layout: gridLayout
 	}
+];
 
-	async saveSettings() {
-		await this.saveData(this.settings);
+function getLayoutEngine(id: string): LayoutEngine {
+	return LAYOUT_ENGINES.find(engine => engine.id === id) ?? LAYOUT_ENGINES[0];
+}
+
+// Pick the sides an edge should attach to from the relative position of its nodes
+function getEdgeSides(from: {x: number, y: number}, to: {x: number, y: number}): {fromSide: CanvasSide, toSide: CanvasSide} {
+	const dx = to.x - from.x;
+	const dy = to.y - from.y;
+	if (Math.abs(dx) >= Math.abs(dy)) {
+		return dx >= 0 ? {fromSide: 'right', toSide: 'left'} : {fromSide: 'left', toSide: 'right'};
 	}
+	return dy >= 0 ? {fromSide: 'bottom', toSide: 'top'} : {fromSide: 'top', toSide: 'bottom'};
+}
 
-	async generateCanvasForActiveNote() {
-		// Check if we're currently in a canvas view - if so, don't generate a new canvas
-		const activeLeaf = this.app.workspace.activeLeaf;
-		if (activeLeaf && activeLeaf.view) {
-			const activeFile = (activeLeaf.view as any).file;
-			if (activeFile && activeFile.path.endsWith('.canvas')) {
-				// We're in a canvas view, don't generate a new canvas
-				return;
+function getNeighbourMap(connections: Map<string, Set<string>>): Map<string, Set<string>> {
+	const neighbours = new Map<string, Set<string>>();
+	const link = (a: string, b: string) => {
+		if (!neighbours.has(a)) neighbours.set(a, new Set<string>());
+		neighbours.get(a)?.add(b);
+	};
+	connections.forEach((targets, source) => {
+		targets.forEach(target => {
+			link(source, target);
+			link(target, source);
+		});
+	});
+	return neighbours;
+}
+
+// Build a spanning tree over the layout input: every node hangs off a neighbour one level closer to the center
+function getChildrenMap(input: LayoutInput): Map<string, LinkGraphNode[]> {
+	const neighbours = getNeighbourMap(input.connections);
+	const levels = new Map<string, number>();
+	input.nodes.forEach(node => levels.set(node.file.path, node.file.path === input.centerFile.path ? 0 : node.level));
+
+	const children = new Map<string, LinkGraphNode[]>();
+	// Walk the layers so siblings keep the order organizeNodesIntoLayers gave them
+	const ordered: LinkGraphNode[] = [];
+	input.layers.forEach(layer => layer.forEach(node => ordered.push(node)));
+	const seen = new Set<string>();
+	for (const node of ordered) {
+		const path = node.file.path;
+		if (path === input.centerFile.path || seen.has(path)) continue;
+		seen.add(path);
+
+		let parent = input.centerFile.path;
+		let parentLevel = -1;
+		(neighbours.get(path) ?? new Set<string>()).forEach(candidate => {
+			const level = levels.get(candidate);
+			if (level === undefined || level >= node.level) return;
+			// Prefer the neighbour exactly one level up, otherwise the closest one
+			if (level > parentLevel || (level === parentLevel && candidate < parent)) {
+				parent = candidate;
+				parentLevel = level;
 			}
-		}
+		});
 
-		// Try multiple ways to get the active file
-		let activeFile: TFile | null = null;
-		
-		// Method 1: Get from active view
-		const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
-		if (activeView && activeView.file) {
-			activeFile = activeView.file;
-		}
-		
-		// Method 2: Get from workspace active file
-		if (!activeFile) {
-			activeFile = this.app.workspace.getActiveFile();
+		if (!children.has(parent)) children.set(parent, []);
+		children.get(parent)?.push(node);
+	}
+	return children;
+}
+
+function countCrossings(left: LinkGraphNode[], right: LinkGraphNode[], neighbours: Map<string, Set<string>>): number {
+	const rightIndex = new Map<string, number>();
+	right.forEach((node, i) => rightIndex.set(node.file.path, i));
+
+	const segments: Array<[number, number]> = [];
+	left.forEach((node, i) => {
+		(neighbours.get(node.file.path) ?? new Set<string>()).forEach(other => {
+			const j = rightIndex.get(other);
+			if (j !== undefined) segments.push([i, j]);
+		});
+	});
+
+	let crossings = 0;
+	for (let a = 0; a < segments.length; a++) {
+		for (let b = a + 1; b < segments.length; b++) {
+			const [i1, j1] = segments[a];
+			const [i2, j2] = segments[b];
+			if ((i1 - i2) * (j1 - j2) < 0) crossings++;
 		}
-		
-		if (!activeFile) {
-			new Notice('No active markdown file found. Please open a markdown file first.');
-			return;
+	}
+	return crossings;
+}
+
+// Sugiyama-style ordering: repeatedly sort each layer by the barycenter (or median) of its neighbours
+// in the adjacent layer, keeping nodes that hang off the same parent next to each other
+function minimizeLayerCrossings(
+	layers: LinkGraphNode[][],
+	connections: Map<string, Set<string>>,
+	centerPath: string,
+	heuristic: 'barycenter' | 'median'
+): LinkGraphNode[][] {
+	const neighbours = getNeighbourMap(connections);
+	const centerLayerIndex = layers.findIndex(layer => layer.some(node => node.file.path === centerPath));
+	const current = layers.map(layer => layer.slice());
+
+	const totalCrossings = (candidate: LinkGraphNode[][]) => {
+		let total = 0;
+		for (let i = 0; i + 1 < candidate.length; i++) {
+			total += countCrossings(candidate[i], candidate[i + 1], neighbours);
 		}
-		
-		// Check if it's a markdown file
-		if (activeFile.extension !== 'md') {
-			new Notice('Active file is not a markdown file. Please open a .md file.');
-			return;
+		return total;
+	};
+
+	const neighbourPositions = (node: LinkGraphNode, layer: LinkGraphNode[] | undefined): number[] => {
+		if (!layer) return [];
+		const linked = neighbours.get(node.file.path) ?? new Set<string>();
+		const positions: number[] = [];
+		layer.forEach((other, i) => {
+			if (linked.has(other.file.path)) positions.push(i);
+		});
+		return positions;
+	};
+
+	const score = (positions: number[], fallback: number): number => {
+		if (positions.length === 0) return fallback;
+		if (heuristic === 'median') {
+			const middle = Math.floor(positions.length / 2);
+			return positions.length % 2 === 1 ? positions[middle] : (positions[middle - 1] + positions[middle]) / 2;
 		}
+		return positions.reduce((sum, position) => sum + position, 0) / positions.length;
+	};
 
-		try {
-			// Create a new canvas file
-			const canvasFileName = `${activeFile.basename}_canvas`;
-			// Normalize path to avoid leading or double slashes
-			const parentPath = activeFile.parent?.path ?? '';
-			const normalizedDir = parentPath.replace(/\\+/g, '/').replace(/^\/+|\/+$|(^\.$)/g, '');
-			const canvasPath = normalizedDir ? `${normalizedDir}/${canvasFileName}.canvas` : `${canvasFileName}.canvas`;
-			
-			// Check if canvas already exists
-			const existingCanvas = this.app.vault.getAbstractFileByPath(canvasPath);
-			if (existingCanvas) {
-				if (this.settings.autoOpenCanvas) {
-					new Notice(`Canvas already exists: ${canvasFileName}.canvas - Opening in new tab`);
-					// Open the existing canvas in a new tab
-					await this.app.workspace.openLinkText(canvasPath, '', false);
-				} else {
-					new Notice(`Canvas already exists: ${canvasFileName}.canvas`);
-				}
-				return;
-			}
+	const reorderLayer = (layerIndex: number, fixedIndex: number) => {
+		const layer = current[layerIndex];
+		// The parent layer is the neighbouring layer closer to the center note
+		const parentIndex = layerIndex < centerLayerIndex ? layerIndex + 1 : layerIndex - 1;
+		const keys = new Map<string, {parent: number, weight: number}>();
+		layer.forEach((node, i) => {
+			// Nodes without a parent or neighbours keep their current position
+			const parent = score(neighbourPositions(node, current[parentIndex]), i);
+			const weight = fixedIndex === parentIndex ? i : score(neighbourPositions(node, current[fixedIndex]), i);
+			keys.set(node.file.path, {parent, weight});
+		});
+		layer.sort((a, b) => {
+			const keyA = keys.get(a.file.path);
+			const keyB = keys.get(b.file.path);
+			if (!keyA || !keyB) return 0;
+			return keyA.parent - keyB.parent || keyA.weight - keyB.weight;
+		});
+	};
 
-			// Create canvas content
-			const canvasContent = this.createCanvasContent(activeFile);
-			
-			// Create the canvas file
-			await this.app.vault.create(canvasPath, canvasContent);
-			
-			// Open the new canvas if setting is enabled
-			if (this.settings.autoOpenCanvas) {
-				await this.app.workspace.openLinkText(canvasPath, '', false);
-			}
-			
-			new Notice(`Canvas generated: ${canvasFileName}.canvas`);
-		} catch (error) {
-			console.error('Error generating canvas:', error);
-			new Notice('Error generating canvas');
+	let best = current.map(layer => layer.slice());
+	let bestCrossings = totalCrossings(best);
+
+	for (let sweep = 0; sweep < ORDERING_SWEEPS && bestCrossings > 0; sweep++) {
+		if (sweep % 2 === 0) {
+			// Sweep outwards from the center
+			for (let i = centerLayerIndex + 1; i < current.length; i++) reorderLayer(i, i - 1);
+			for (let i = centerLayerIndex - 1; i >= 0; i--) reorderLayer(i, i + 1);
+		} else {
+			// Sweep back towards the center
+			for (let i = current.length - 2; i > centerLayerIndex; i--) reorderLayer(i, i + 1);
+			for (let i = 1; i < centerLayerIndex; i++) reorderLayer(i, i - 1);
+		}
+
+		const crossings = totalCrossings(current);
+		if (crossings < bestCrossings) {
+			best = current.map(layer => layer.slice());
+			bestCrossings = crossings;
 		}
 	}
 
-	createCanvasContent(activeFile: TFile): string {
-		// Get all nodes and their connections
-		const { nodes: allNodes, connections } = this.getAllNodesAndConnections(activeFile, this.settings.linkDepth);
+	return best;
+}
+
+function layeredLayout(input: LayoutInput): Map<string, {x: number, y: number}> {
+	const { centerFile, layers, originX, originY } = input;
+	const positions = new Map<string, {x: number, y: number}>();
+	positions.set(centerFile.path, {x: originX, y: originY});
+
+	// Find the center layer index (the layer containing the center node)
+	const centerLayerIndex = layers.findIndex(layer => 
+		layer.some(node => node.file.path === centerFile.path)
+	);
+	
+	for (let layerIndex = 0; layerIndex < layers.length; layerIndex++) {
+		const layer = layers[layerIndex];
 		
-		// Organize nodes into layers for better layout
-		const layers = this.organizeNodesIntoLayers(activeFile, allNodes, connections);
+		// Calculate horizontal position for this layer relative to the center layer
+		const layerX = originX + (layerIndex - centerLayerIndex) * HORIZONTAL_SPACING;
 		
-		// Calculate positions using layered layout
-		const nodeWidth = 300;
-		const nodeHeight = 200;
-		const horizontalSpacing = 450; // Space between layers
-		const verticalSpacing = 280; // Space between nodes in same layer
+		// Calculate vertical positions for nodes in this layer
+		const totalLayerHeight = (layer.length - 1) * VERTICAL_SPACING;
+		const layerStartY = originY - totalLayerHeight / 2;
 		
-		// Create nodes array starting with center node
-		const nodes = [
-			{
-				id: "center-node",
-				type: "file",
-				file: activeFile.path,
-				x: this.settings.canvasWidth / 2,
-				y: this.settings.canvasHeight / 2,
-				width: nodeWidth,
-				height: nodeHeight
-			}
-		];
-		
-		// Create a map of file paths to node IDs for edge creation
-		const fileToNodeId = new Map<string, string>();
-		fileToNodeId.set(activeFile.path, "center-node");
-		
-		// Position nodes in layers
-		let nodeIndex = 0;
-		
-		// Debug: Log the layers structure
-		console.log('Layers structure:', layers.map((layer, i) => `Layer ${i}: ${layer.length} nodes`));
-		
-		// Find the center layer index (the layer containing the center node)
-		const centerLayerIndex = layers.findIndex(layer => 
-			layer.some(node => node.file.path === activeFile.path)
-		);
-		
-		for (let layerIndex = 0; layerIndex < layers.length; layerIndex++) {
-			const layer = layers[layerIndex];
-			
-			// Calculate horizontal position for this layer
-			let layerX: number;
-			if (layerIndex === centerLayerIndex) {
-				// Center layer - center node
-				layerX = this.settings.canvasWidth / 2;
-			} else {
-				// Calculate offset relative to center layer
-				const relativeOffset = layerIndex - centerLayerIndex;
-				const offset = relativeOffset * horizontalSpacing;
-				layerX = this.settings.canvasWidth / 2 + offset;
-			}
-			
-			// Calculate vertical positions for nodes in this layer
-			const totalLayerHeight = (layer.length - 1) * verticalSpacing;
-			const layerStartY = this.settings.canvasHeight / 2 - totalLayerHeight / 2;
-			
-			for (let nodeInLayerIndex = 0; nodeInLayerIndex < layer.length; nodeInLayerIndex++) {
-				const nodeInfo = layer[nodeInLayerIndex];
-				if (nodeInfo.file.path !== activeFile.path) { // Skip center node
-					const nodeId = `node-${nodeIndex++}`;
-					fileToNodeId.set(nodeInfo.file.path, nodeId);
-					
-					const nodeY = layerStartY + nodeInLayerIndex * verticalSpacing;
-					
-					nodes.push({
-						id: nodeId,
-						type: "file",
-						file: nodeInfo.file.path,
-						x: layerX,
-						y: nodeY,
-						width: nodeWidth,
-						height: nodeHeight
-					});
-				}
+		for (let nodeInLayerIndex = 0; nodeInLayerIndex < layer.length; nodeInLayerIndex++) {
+			const nodeInfo = layer[nodeInLayerIndex];
+			if (nodeInfo.file.path !== centerFile.path) { // Skip center node
+				positions.set(nodeInfo.file.path, {x: layerX, y: layerStartY + nodeInLayerIndex * VERTICAL_SPACING});
 			}
 		}
-		
-		// Create edges (arrows) for all connections
-		const edges: any[] = [];
-		let edgeIndex = 0;
-		
-		// Add all connections between nodes
-		for (const [fromPath, toPaths] of connections.entries()) {
-			const fromNodeId = fileToNodeId.get(fromPath);
-			if (fromNodeId) {
-				for (const toPath of toPaths) {
-					const toNodeId = fileToNodeId.get(toPath);
-					if (toNodeId && fromNodeId !== toNodeId) {
-						edges.push({
-							id: `edge-${edgeIndex++}`,
-							fromNode: fromNodeId,
-							fromSide: "right",
-							toNode: toNodeId,
-							toSide: "left"
-						});
-					}
-				}
-			}
+	}
+
+	return positions;
+}
+
+function radialLayout(input: LayoutInput): Map<string, {x: number, y: number}> {
+	const { centerFile, nodes, originX, originY } = input;
+	const positions = new Map<string, {x: number, y: number}>();
+	positions.set(centerFile.path, {x: originX, y: originY});
+
+	const children = getChildrenMap(input);
+
+	// Ring radius grows with the level, and with the number of nodes so a ring never overlaps itself
+	const ringSpacing = Math.max(NODE_WIDTH, NODE_HEIGHT) + 250;
+	const countPerLevel = new Map<number, number>();
+	nodes.forEach(node => countPerLevel.set(node.level, (countPerLevel.get(node.level) ?? 0) + 1));
+	const radii: number[] = [0];
+	const maxLevel = Math.max(0, ...nodes.map(node => node.level));
+	for (let level = 1; level <= maxLevel; level++) {
+		const needed = ((countPerLevel.get(level) ?? 0) * (NODE_WIDTH + 60)) / (2 * Math.PI);
+		radii.push(Math.max(radii[level - 1] + ringSpacing, needed));
+	}
+
+	// Subtrees get an angular sector proportional to their number of leaves
+	const weights = new Map<string, number>();
+	const weightOf = (path: string): number => {
+		const cached = weights.get(path);
+		if (cached !== undefined) return cached;
+		const kids = children.get(path) ?? [];
+		const weight = kids.length === 0 ? 1 : kids.reduce((sum, kid) => sum + weightOf(kid.file.path), 0);
+		weights.set(path, weight);
+		return weight;
+	};
+
+	const placeSector = (sectorNodes: LinkGraphNode[], start: number, end: number) => {
+		const total = sectorNodes.reduce((sum, node) => sum + weightOf(node.file.path), 0);
+		let cursor = start;
+		for (const node of sectorNodes) {
+			const span = (end - start) * weightOf(node.file.path) / total;
+			const angle = cursor + span / 2;
+			const radius = radii[node.level] ?? radii[radii.length - 1];
+			positions.set(node.file.path, {
+				x: originX + Math.cos(angle) * radius,
+				y: originY + Math.sin(angle) * radius
+			});
+			placeSector(children.get(node.file.path) ?? [], cursor, cursor + span);
+			cursor += span;
 		}
-		
-		const canvasData = {
-			nodes: nodes,
-			edges: edges,
-			meta: {
-				created: new Date().toISOString(),
-				modified: new Date().toISOString()
+	};
+
+	// Backlinks take the left half of the circle and forward links the right half
+	const rootChildren = children.get(centerFile.path) ?? [];
+	const backlinks = rootChildren.filter(node => node.isBacklink);
+	const forwardLinks = rootChildren.filter(node => !node.isBacklink);
+	if (backlinks.length === 0 || forwardLinks.length === 0) {
+		placeSector(rootChildren, -Math.PI, Math.PI);
+	} else {
+		placeSector(backlinks, Math.PI / 2, Math.PI * 3 / 2);
+		placeSector(forwardLinks, -Math.PI / 2, Math.PI / 2);
+	}
+
+	return positions;
+}
+
+function treeLayout(input: LayoutInput): Map<string, {x: number, y: number}> {
+	const { centerFile, originX, originY } = input;
+	const positions = new Map<string, {x: number, y: number}>();
+	positions.set(centerFile.path, {x: originX, y: originY});
+
+	const children = getChildrenMap(input);
+	const columnWidth = NODE_WIDTH + 60;
+	const rowHeight = NODE_HEIGHT + 160;
+
+	// Leaves take consecutive slots, parents are centered above their children
+	const placeSubtrees = (roots: LinkGraphNode[], direction: number) => {
+		const slots = new Map<string, number>();
+		let nextSlot = 0;
+		const assign = (node: LinkGraphNode): number => {
+			const kids = children.get(node.file.path) ?? [];
+			let slot: number;
+			if (kids.length === 0) {
+				slot = nextSlot++;
+			} else {
+				const kidSlots = kids.map(assign);
+				slot = (kidSlots[0] + kidSlots[kidSlots.length - 1]) / 2;
 			}
+			slots.set(node.file.path, slot);
+			return slot;
+		};
+		roots.forEach(assign);
+
+		// Center the whole side under the center note
+		const offset = (nextSlot - 1) / 2;
+		const visit = (node: LinkGraphNode, depth: number) => {
+			positions.set(node.file.path, {
+				x: originX + ((slots.get(node.file.path) ?? 0) - offset) * columnWidth,
+				y: originY + direction * depth * rowHeight
+			});
+			(children.get(node.file.path) ?? []).forEach(kid => visit(kid, depth + 1));
 		};
+		roots.forEach(root => visit(root, 1));
+	};
+
+	const rootChildren = children.get(centerFile.path) ?? [];
+	placeSubtrees(rootChildren.filter(node => node.isBacklink), -1);
+	placeSubtrees(rootChildren.filter(node => !node.isBacklink), 1);
+
+	return positions;
+}
 
-		return JSON.stringify(canvasData, null, 2);
+// Convert a folder glob (`Templates/**`, `Daily/*`) to a regular expression over vault paths
+function globToRegExp(glob: string): RegExp {
+	let pattern = '';
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i];
+		if (char === '*' && glob[i + 1] === '*') {
+			pattern += '.*';
+			i++;
+		} else if (char === '*') {
+			pattern += '[^/]*';
+		} else if (char === '?') {
+			pattern += '[^/]';
+		} else {
+			pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+		}
 	}
-	
-	getBacklinks(file: TFile): TFile[] {
-		const backlinks = this.app.metadataCache.resolvedLinks;
-		const backlinkFiles: TFile[] = [];
-		
-		// Find all files that link to the current file
-		for (const [sourcePath, links] of Object.entries(backlinks)) {
-			if (links[file.path]) {
-				const sourceFile = this.app.vault.getAbstractFileByPath(sourcePath);
-				if (sourceFile && sourceFile instanceof TFile && sourceFile.extension === 'md') {
-					backlinkFiles.push(sourceFile);
+	return new RegExp(`^${pattern}$`, 'i');
+}
+
+// A path matches a folder rule if the path itself or one of its parent folders matches
+function pathMatchesFolderRule(path: string, rule: string): boolean {
+	const normalizedRule = rule.trim().replace(/^\/+|\/+$/g, '');
+	if (!normalizedRule) return false;
+	const regex = globToRegExp(normalizedRule);
+	const parts = path.split('/');
+	for (let i = parts.length; i > 0; i--) {
+		if (regex.test(parts.slice(0, i).join('/'))) return true;
+	}
+	return false;
+}
+
+function tagMatchesRule(tag: string, rule: string): boolean {
+	const normalizedTag = tag.replace(/^#/, '').toLowerCase();
+	const normalizedRule = rule.trim().replace(/^#/, '').toLowerCase();
+	return normalizedRule !== '' && (normalizedTag === normalizedRule || normalizedTag.startsWith(`${normalizedRule}/`));
+}
+
+// Evaluate a frontmatter condition: `key = value`, `key != value`, `key` (is set) or `!key` (is not set)
+function frontmatterMatchesCondition(frontmatter: Record<string, any> | undefined, condition: string): boolean {
+	const match = condition.trim().match(/^(!?)\s*([^=!]+?)\s*(?:(!=|=)\s*(.*))?$/);
+	if (!match) return true;
+	const [, negate, key, operator, rawValue] = match;
+	const value = frontmatter ? frontmatter[key] : undefined;
+	const isSet = value !== undefined && value !== null && value !== '';
+
+	if (!operator) {
+		return negate ? !isSet : isSet;
+	}
+
+	const expected = (rawValue ?? '').trim().replace(/^["']|["']$/g, '').toLowerCase();
+	const values = (Array.isArray(value) ? value : [value]).filter(v => v !== undefined && v !== null).map(v => String(v).toLowerCase());
+	const equals = values.includes(expected);
+	return operator === '=' ? equals : !equals;
+}
+
+// Replace notes that were traversed but not drawn with direct connections between their neighbours
+function contractHiddenNodes(connections: Map<string, Set<string>>, hidden: Set<string>) {
+	hidden.forEach(hiddenPath => {
+		const targets = connections.get(hiddenPath) ?? new Set<string>();
+		connections.forEach((sourceTargets, sourcePath) => {
+			if (sourcePath === hiddenPath || !sourceTargets.has(hiddenPath)) return;
+			sourceTargets.delete(hiddenPath);
+			targets.forEach(target => {
+				if (target !== sourcePath) sourceTargets.add(target);
+			});
+		});
+		connections.delete(hiddenPath);
+	});
+}
+
+// The sentence around a link, with wikilinks reduced to their display text
+function getLinkContext(content: string, start: number, end: number): string {
+	let from = start;
+	while (from > 0 && !/[.!?\n]/.test(content[from - 1])) from--;
+	let to = end;
+	while (to < content.length && !/[.!?\n]/.test(content[to])) to++;
+	if (to < content.length && content[to] !== '\n') to++;
+
+	let snippet = content.slice(from, to)
+		.replace(/!?\[\[([^\]|]+\|)?([^\]]+)\]\]/g, '$2')
+		.replace(/\s+/g, ' ')
+		.replace(/^\s*([-*+>]|\d+\.)\s+/, '')
+		.trim();
+	if (snippet.length > CONTEXT_LENGTH) {
+		snippet = snippet.slice(0, CONTEXT_LENGTH - 1).trim() + '…';
+	}
+	return snippet;
+}
+
+interface ColorRule {
+	source: 'folder' | 'tag' | 'property';
+	key: string; // Folder glob, tag or property name
+	value: string; // Expected property value
+	color: string; // Canvas color preset '1'-'6' or a hex color
+}
+
+// Parse `folder:People/** -> 2`, `tag:project -> green` or `type: person -> #ff8800`
+function parseColorRule(line: string): ColorRule | null {
+	const match = line.match(/^(.+?)\s*->\s*(\S+)$/);
+	if (!match) return null;
+	const [, matcher, rawColor] = match;
+	const color = CANVAS_COLOR_NAMES[rawColor.toLowerCase()] ?? rawColor;
+	if (!/^[1-6]$/.test(color) && !/^#[0-9a-f]{3}([0-9a-f]{3})?$/i.test(color)) return null;
+
+	if (/^folder:/i.test(matcher)) {
+		return { source: 'folder', key: matcher.slice('folder:'.length).trim(), value: '', color };
+	}
+	if (/^tag:/i.test(matcher)) {
+		return { source: 'tag', key: matcher.slice('tag:'.length).trim(), value: '', color };
+	}
+	const separator = matcher.indexOf(':');
+	if (separator < 0) return null;
+	return { source: 'property', key: matcher.slice(0, separator).trim(), value: matcher.slice(separator + 1).trim(), color };
+}
+
+// Move rectangles apart until none of them overlap, pushing the one farther from the origin
+function separateRectangles(
+	items: Array<{x: number, y: number, width: number, height: number, pinned: boolean}>,
+	originX: number,
+	originY: number
+) {
+	const margin = 40;
+	for (let pass = 0; pass < 100; pass++) {
+		let moved = false;
+		for (let i = 0; i < items.length; i++) {
+			for (let j = i + 1; j < items.length; j++) {
+				const a = items[i];
+				const b = items[j];
+				const overlapX = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x) + margin;
+				const overlapY = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y) + margin;
+				if (overlapX <= 0 || overlapY <= 0 || (a.pinned && b.pinned)) continue;
+
+				const distance = (item: {x: number, y: number, width: number, height: number}) =>
+					Math.abs(item.x + item.width / 2 - originX) + Math.abs(item.y + item.height / 2 - originY);
+				const mover = a.pinned ? b : b.pinned ? a : (distance(a) > distance(b) ? a : b);
+				const other = mover === a ? b : a;
+				if (overlapX < overlapY) {
+					mover.x += (mover.x + mover.width / 2 >= other.x + other.width / 2 ? 1 : -1) * overlapX;
+				} else {
+					mover.y += (mover.y + mover.height / 2 >= other.y + other.height / 2 ? 1 : -1) * overlapY;
 				}
+				moved = true;
 			}
 		}
-		
-		return backlinkFiles;
+		if (!moved) break;
 	}
-	
-	getForwardLinks(file: TFile): TFile[] {
-		const forwardLinks: TFile[] = [];
-		const links = this.app.metadataCache.resolvedLinks[file.path];
-		
-		if (links) {
-			for (const [targetPath, count] of Object.entries(links)) {
-				const targetFile = this.app.vault.getAbstractFileByPath(targetPath);
-				if (targetFile && targetFile instanceof TFile && targetFile.extension === 'md') {
-					forwardLinks.push(targetFile);
-				}
-			}
+}
+
+// Whether a note matches a seed query such as `tag:#project path:Work/ meeting`. Every term must match:
+// `tag:` matches the note's tags (nested tags included), `path:` and `file:` match part of the path or
+// name, and bare words match part of the path.
+function noteMatchesQuery(file: TFile, tags: string[], query: string): boolean {
+	const terms = query.trim().toLowerCase().split(/\s+/).filter(term => term.length > 0);
+	if (terms.length === 0) return false;
+	return terms.every(term => {
+		if (term.startsWith('tag:')) {
+			const rule = term.slice('tag:'.length);
+			return rule.length > 0 && tags.some(tag => tagMatchesRule(tag.toLowerCase(), rule));
 		}
-		
-		return forwardLinks;
+		if (term.startsWith('path:')) return file.path.toLowerCase().includes(term.slice('path:'.length));
+		if (term.startsWith('file:')) return file.basename.toLowerCase().includes(term.slice('file:'.length));
+		return file.path.toLowerCase().includes(term);
+	});
+}
+
+function parseRuleLines(text: string): string[] {
+	return text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+}
+
+// Link graph handed to the exporters, node ids are note paths or canvas node ids
+interface ExportGraph {
+	nodes: Array<{id: string, label: string, path?: string, color?: string}>;
+	edges: Array<{from: string, to: string, label?: string, color?: string, directed: boolean}>;
+}
+
+interface ExportFormat {
+	id: 'mermaid' | 'dot' | 'graphml' | 'json';
+	name: string;
+	description: string;
+	extension: string;
+	serialize(graph: ExportGraph, title: string): string;
+}
+
+// Hex values of the canvas color presets, for formats that need a real color
+const CANVAS_COLOR_HEX: Record<string, string> = {
+	'1': '#fb464c',
+	'2': '#e9973f',
+	'3': '#e0de71',
+	'4': '#44cf6e',
+	'5': '#53dfdd',
+	'6': '#a882ff'
+};
+
+function getColorHex(color: string | undefined): string | undefined {
+	if (!color) return undefined;
+	return CANVAS_COLOR_HEX[color] ?? color;
+}
+
+function escapeXml(value: string): string {
+	return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+}
+
+function escapeDot(value: string): string {
+	return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+// Mermaid and DOT ids must be simple, so nodes are numbered in the order they appear
+function getShortIds(graph: ExportGraph): Map<string, string> {
+	const ids = new Map<string, string>();
+	graph.nodes.forEach((node, i) => ids.set(node.id, `n${i}`));
+	return ids;
+}
+
+function toMermaid(graph: ExportGraph, title: string): string {
+	const ids = getShortIds(graph);
+	const label = (value: string) => `"${value.replace(/"/g, '#quot;').replace(/\n/g, ' ')}"`;
+	const lines = ['flowchart LR'];
+	graph.nodes.forEach(node => lines.push(`\t${ids.get(node.id)}[${label(node.label)}]`));
+	graph.edges.forEach(edge => {
+		const arrow = edge.directed ? '-->' : '---';
+		lines.push(`\t${ids.get(edge.from)} ${arrow}${edge.label ? `|${label(edge.label)}|` : ''} ${ids.get(edge.to)}`);
+	});
+	graph.nodes.forEach(node => {
+		const color = getColorHex(node.color);
+		if (color) lines.push(`\tstyle ${ids.get(node.id)} fill:${color}`);
+	});
+	graph.edges.forEach((edge, i) => {
+		const color = getColorHex(edge.color);
+		if (color) lines.push(`\tlinkStyle ${i} stroke:${color}`);
+	});
+	return `# ${title}\n\n\`\`\`mermaid\n${lines.join('\n')}\n\`\`\`\n`;
+}
+
+function toDot(graph: ExportGraph, title: string): string {
+	const ids = getShortIds(graph);
+	const lines = [`digraph "${escapeDot(title)}" {`, '\trankdir=LR;', '\tnode [shape=box];'];
+	graph.nodes.forEach(node => {
+		const color = getColorHex(node.color);
+		const attributes = [`label="${escapeDot(node.label)}"`];
+		if (node.path) attributes.push(`tooltip="${escapeDot(node.path)}"`);
+		if (color) attributes.push('style=filled', `fillcolor="${color}"`);
+		lines.push(`\t${ids.get(node.id)} [${attributes.join(', ')}];`);
+	});
+	graph.edges.forEach(edge => {
+		const color = getColorHex(edge.color);
+		const attributes: string[] = [];
+		if (edge.label) attributes.push(`label="${escapeDot(edge.label)}"`);
+		if (color) attributes.push(`color="${color}"`);
+		if (!edge.directed) attributes.push('dir=none');
+		lines.push(`\t${ids.get(edge.from)} -> ${ids.get(edge.to)}${attributes.length > 0 ? ` [${attributes.join(', ')}]` : ''};`);
+	});
+	lines.push('}');
+	return lines.join('\n') + '\n';
+}
+
+function toGraphML(graph: ExportGraph, title: string): string {
+	const data = (key: string, value: string | undefined) => value ? `<data key="${key}">${escapeXml(value)}</data>` : '';
+	const lines = [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		'<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+		'\t<key id="label" for="node" attr.name="label" attr.type="string"/>',
+		'\t<key id="path" for="node" attr.name="path" attr.type="string"/>',
+		'\t<key id="color" for="node" attr.name="color" attr.type="string"/>',
+		'\t<key id="edgeLabel" for="edge" attr.name="label" attr.type="string"/>',
+		'\t<key id="edgeColor" for="edge" attr.name="color" attr.type="string"/>',
+		`\t<graph id="${escapeXml(title)}" edgedefault="directed">`
+	];
+	graph.nodes.forEach(node => {
+		lines.push(`\t\t<node id="${escapeXml(node.id)}">${data('label', node.label)}${data('path', node.path)}${data('color', getColorHex(node.color))}</node>`);
+	});
+	graph.edges.forEach((edge, i) => {
+		const directed = edge.directed ? '' : ' directed="false"';
+		lines.push(`\t\t<edge id="e${i}" source="${escapeXml(edge.from)}" target="${escapeXml(edge.to)}"${directed}>${data('edgeLabel', edge.label)}${data('edgeColor', getColorHex(edge.color))}</edge>`);
+	});
+	lines.push('\t</graph>', '</graphml>');
+	return lines.join('\n') + '\n';
+}
+
+function toJsonAdjacency(graph: ExportGraph, title: string): string {
+	const adjacency: Record<string, string[]> = {};
+	graph.nodes.forEach(node => adjacency[node.id] = []);
+	graph.edges.forEach(edge => {
+		adjacency[edge.from].push(edge.to);
+		if (!edge.directed) adjacency[edge.to].push(edge.from);
+	});
+	const nodes = graph.nodes.map(node => ({ ...node, color: getColorHex(node.color) }));
+	const edges = graph.edges.map(edge => ({ ...edge, color: getColorHex(edge.color) }));
+	return JSON.stringify({ title, nodes, edges, adjacency }, null, 2);
+}
+
+const EXPORT_FORMATS: ExportFormat[] = [
+	{
+		id: 'mermaid',
+		name: 'Mermaid',
+		description: 'Note with a Mermaid flowchart code block',
+		extension: 'md',
+		serialize: toMermaid
+	},
+	{
+		id: 'dot',
+		name: 'Graphviz DOT',
+		description: 'Graph description for Graphviz and similar tools',
+		extension: 'dot',
+		serialize: toDot
+	},
+	{
+		id: 'graphml',
+		name: 'GraphML',
+		description: 'XML graph format read by Gephi, yEd and NetworkX',
+		extension: 'graphml',
+		serialize: toGraphML
+	},
+	{
+		id: 'json',
+		name: 'JSON',
+		description: 'Nodes, edges and an adjacency list',
+		extension: 'json',
+		serialize: toJsonAdjacency
 	}
+];
 
-	getAllNodesAndConnections(centerFile: TFile, depth: number): {
-		nodes: Array<{file: TFile, level: number, isBacklink: boolean}>,
-		connections: Map<string, Set<string>>
-	} {
-		const visited = new Set<string>();
-		const nodes: Array<{file: TFile, level: number, isBacklink: boolean}> = [];
-		const connections = new Map<string, Set<string>>();
-		
-		// Add center node
-		nodes.push({file: centerFile, level: 0, isBacklink: false});
-		visited.add(centerFile.path);
-		connections.set(centerFile.path, new Set<string>());
-		
-		// Explore all connections up to specified depth
-		this.exploreAllConnections(centerFile, depth, 1, visited, nodes, connections);
-		
-		return { nodes, connections };
+// Add list items to the end of the section under a heading, adding the heading at the end of the note when it's missing
+function appendLinksUnderHeading(content: string, heading: string, links: string[]): string {
+	const items = links.map(link => `- ${link}`);
+	const lines = content.split('\n');
+	const start = lines.findIndex(line => line.trim() === heading.trim());
+	if (start === -1) {
+		const trimmed = content.replace(/\s+$/, '');
+		return `${trimmed}${trimmed ? '\n\n' : ''}${heading.trim()}\n${items.join('\n')}\n`;
 	}
 
-	organizeNodesIntoLayers(
-		centerFile: TFile, 
-		allNodes: Array<{file: TFile, level: number, isBacklink: boolean}>, 
-		connections: Map<string, Set<string>>
-	): Array<Array<{file: TFile, level: number, isBacklink: boolean}>> {
-		// Create separate layers for backlinks (left) and forward links (right)
-		const backlinkLayers: Array<Array<{file: TFile, level: number, isBacklink: boolean}>> = [];
-		const forwardLinkLayers: Array<Array<{file: TFile, level: number, isBacklink: boolean}>> = [];
-		
-		// Find the maximum level for both backlinks and forward links
-		const maxBacklinkLevel = Math.max(...allNodes.filter(node => node.isBacklink).map(node => node.level), 0);
-		const maxForwardLinkLevel = Math.max(...allNodes.filter(node => !node.isBacklink).map(node => node.level), 0);
-		
-		// Create layers for backlinks (left side)
-		for (let level = 0; level <= maxBacklinkLevel; level++) {
-			backlinkLayers.push([]);
+	// The section ends at the next heading of the same or a higher level
+	const level = (heading.trim().match(/^#+/) ?? [''])[0].length;
+	let end = start + 1;
+	while (end < lines.length) {
+		const match = lines[end].match(/^(#+)\s/);
+		if (match && (level === 0 || match[1].length <= level)) break;
+		end++;
+	}
+	while (end > start + 1 && lines[end - 1].trim() === '') end--;
+	lines.splice(end, 0, ...items);
+	return lines.join('\n');
+}
+
+// Small seeded PRNG so force-directed layouts are reproducible
+function mulberry32(seed: number): () => number {
+	return () => {
+		seed |= 0;
+		seed = seed + 0x6d2b79f5 | 0;
+		let t = Math.imul(seed ^ seed >>> 15, 1 | seed);
+		t = t + Math.imul(t ^ t >>> 7, 61 | t) ^ t;
+		return ((t ^ t >>> 14) >>> 0) / 4294967296;
+	};
+}
+
+function forceLayout(input: LayoutInput): Map<string, {x: number, y: number}> {
+	const { centerFile, nodes, connections, originX, originY } = input;
+	const paths = nodes.map(node => node.file.path);
+	const index = new Map<string, number>();
+	paths.forEach((path, i) => index.set(path, i));
+	const centerIndex = index.get(centerFile.path) ?? 0;
+
+	const edges: Array<[number, number]> = [];
+	connections.forEach((targets, source) => {
+		targets.forEach(target => {
+			const a = index.get(source);
+			const b = index.get(target);
+			if (a !== undefined && b !== undefined && a !== b) edges.push([a, b]);
+		});
+	});
+
+	// Fruchterman-Reingold with a seed derived from the center note
+	const random = mulberry32(parseInt(hashString(centerFile.path).slice(0, 8), 16));
+	const idealDistance = Math.max(NODE_WIDTH, NODE_HEIGHT) + 150;
+	const spread = idealDistance * Math.sqrt(paths.length);
+	const xs = paths.map(() => (random() - 0.5) * spread);
+	const ys = paths.map(() => (random() - 0.5) * spread);
+	xs[centerIndex] = 0;
+	ys[centerIndex] = 0;
+
+	const iterations = Math.min(300, Math.max(50, Math.floor(30000 / Math.max(paths.length, 1))));
+	let temperature = spread / 4;
+	for (let iteration = 0; iteration < iterations; iteration++) {
+		const dx = paths.map(() => 0);
+		const dy = paths.map(() => 0);
+
+		for (let i = 0; i < paths.length; i++) {
+			for (let j = i + 1; j < paths.length; j++) {
+				let ddx = xs[i] - xs[j];
+				let ddy = ys[i] - ys[j];
+				let distance = Math.sqrt(ddx * ddx + ddy * ddy);
+				if (distance < 0.01) {
+					ddx = random() - 0.5;
+					ddy = random() - 0.5;
+					distance = 0.01;
+				}
+				const force = idealDistance * idealDistance / distance;
+				dx[i] += ddx / distance * force;
+				dy[i] += ddy / distance * force;
+				dx[j] -= ddx / distance * force;
+				dy[j] -= ddy / distance * force;
+			}
 		}
-		
-		// Create layers for forward links (right side)
-		for (let level = 0; level <= maxForwardLinkLevel; level++) {
-			forwardLinkLayers.push([]);
+
+		for (const [a, b] of edges) {
+			const ddx = xs[a] - xs[b];
+			const ddy = ys[a] - ys[b];
+			const distance = Math.max(Math.sqrt(ddx * ddx + ddy * ddy), 0.01);
+			const force = distance * distance / idealDistance;
+			dx[a] -= ddx / distance * force;
+			dy[a] -= ddy / distance * force;
+			dx[b] += ddx / distance * force;
+			dy[b] += ddy / distance * force;
 		}
-		
-		// Add center node to both layer arrays at index 0 (will be used for positioning)
-		backlinkLayers[0].push({file: centerFile, level: 0, isBacklink: false});
-		forwardLinkLayers[0].push({file: centerFile, level: 0, isBacklink: false});
-		
-		// Add other nodes to their respective layers based on their level and backlink status
-		allNodes.forEach(node => {
-			if (node.file.path !== centerFile.path) {
-				if (node.isBacklink) {
-					// Backlinks go to the left
-					if (node.level < backlinkLayers.length) {
-						backlinkLayers[node.level].push(node);
-					}
+
+		for (let i = 0; i < paths.length; i++) {
+			if (i === centerIndex) continue; // The center note stays pinned
+			const length = Math.max(Math.sqrt(dx[i] * dx[i] + dy[i] * dy[i]), 0.01);
+			xs[i] += dx[i] / length * Math.min(length, temperature);
+			ys[i] += dy[i] / length * Math.min(length, temperature);
+		}
+		temperature = Math.max(temperature * 0.95, 1);
+	}
+
+	// Push apart any nodes that still overlap
+	for (let pass = 0; pass < 10; pass++) {
+		let moved = false;
+		for (let i = 0; i < paths.length; i++) {
+			for (let j = i + 1; j < paths.length; j++) {
+				const overlapX = NODE_WIDTH + 40 - Math.abs(xs[i] - xs[j]);
+				const overlapY = NODE_HEIGHT + 40 - Math.abs(ys[i] - ys[j]);
+				if (overlapX <= 0 || overlapY <= 0) continue;
+				moved = true;
+				const mover = j === centerIndex ? i : j;
+				const other = mover === i ? j : i;
+				if (overlapX < overlapY) {
+					xs[mover] += (xs[mover] >= xs[other] ? 1 : -1) * overlapX;
 				} else {
-					// Forward links go to the right
-					if (node.level < forwardLinkLayers.length) {
-						forwardLinkLayers[node.level].push(node);
-					}
+					ys[mover] += (ys[mover] >= ys[other] ? 1 : -1) * overlapY;
 				}
 			}
-		});
-		
-		// Sort nodes within each layer
-		backlinkLayers.forEach(layer => {
-			layer.sort((a, b) => a.file.basename.localeCompare(b.file.basename));
-		});
-		
-		forwardLinkLayers.forEach(layer => {
-			layer.sort((a, b) => a.file.basename.localeCompare(b.file.basename));
-		});
-		
-		// Combine layers: backlinks first (left), then forward links (right)
-		const combinedLayers: Array<Array<{file: TFile, level: number, isBacklink: boolean}>> = [];
-		
-		// Add backlink layers (left side)
-		for (let i = backlinkLayers.length - 1; i >= 0; i--) {
-			if (backlinkLayers[i].length > 0) {
-				combinedLayers.push(backlinkLayers[i]);
-			}
-		}
-		
-		// Add forward link layers (right side)
-		for (let i = 0; i < forwardLinkLayers.length; i++) {
-			if (forwardLinkLayers[i].length > 0) {
-				combinedLayers.push(forwardLinkLayers[i]);
-			}
 		}
-		
-		return combinedLayers;
+		if (!moved) break;
 	}
 
-	async expandCanvas(canvasFile: TFile, focusNote: TFile, direction: 'left' | 'right') {
-		console.log(`Expanding canvas ${direction} from note: ${focusNote.basename}`);
-		
-		// Read current canvas
-		const currentContent = await this.app.vault.read(canvasFile);
-		let canvasData;
-		try {
-			canvasData = JSON.parse(currentContent);
-		} catch (e) {
-			console.error('Failed to parse canvas data:', e);
-			return;
-		}
+	const positions = new Map<string, {x: number, y: number}>();
+	paths.forEach((path, i) => positions.set(path, {x: originX + xs[i], y: originY + ys[i]}));
+	return positions;
+}
 
-		// Get new connections based on direction
-		const newConnections = direction === 'left' 
-			? this.getBacklinks(focusNote)
-			: this.getForwardLinks(focusNote);
+function gridLayout(input: LayoutInput): Map<string, {x: number, y: number}> {
+	const { centerFile, nodes, originX, originY } = input;
 
-		console.log(`Found ${newConnections.length} new connections for ${direction} expansion`);
+	// Closest notes first, backlinks before forward links, then by name
+	const ordered = nodes.filter(node => node.file.path !== centerFile.path).sort((a, b) =>
+		a.level - b.level ||
+		Number(b.isBacklink) - Number(a.isBacklink) ||
+		a.file.basename.localeCompare(b.file.basename)
+	);
 
-		// Add new nodes that aren't already in the canvas
-		const existingPaths = new Set(canvasData.nodes.map((n: any) => n.file));
-		const newNodes = [];
-		const horizontalSpacing = 450;
-		const verticalSpacing = 280; // Space between nodes vertically
-		const nodeWidth = 300;
-		const nodeHeight = 200;
+	const count = ordered.length + 1;
+	const columns = Math.ceil(Math.sqrt(count));
+	const rows = Math.ceil(count / columns);
+	const middleColumn = (columns - 1) / 2;
+	const middleRow = (rows - 1) / 2;
 
-		// Filter out nodes that already exist in the canvas
-		const nodesToAdd = newConnections.filter(linkedFile => !existingPaths.has(linkedFile.path));
-		
-		if (nodesToAdd.length === 0) {
-			console.log('No new nodes to add');
-			return;
+	// Fill cells outwards from the middle of the grid
+	const cells: Array<{column: number, row: number}> = [];
+	for (let row = 0; row < rows; row++) {
+		for (let column = 0; column < columns; column++) {
+			cells.push({column, row});
 		}
+	}
+	const distance = (cell: {column: number, row: number}) =>
+		Math.pow(cell.column - middleColumn, 2) + Math.pow(cell.row - middleRow, 2);
+	cells.sort((a, b) => distance(a) - distance(b) || a.row - b.row || a.column - b.column);
 
-		// Find the focus node's position
-		const focusNode = canvasData.nodes.find((n: any) => n.file === focusNote.path);
-		if (!focusNode) {
-			console.log(`Could not find focus node for ${focusNote.path}`);
-			return;
+	const centerCell = cells[0];
+	const positions = new Map<string, {x: number, y: number}>();
+	[centerFile.path, ...ordered.map(node => node.file.path)].forEach((path, i) => {
+		const cell = cells[i];
+		positions.set(path, {
+			x: originX + (cell.column - centerCell.column) * (NODE_WIDTH + 60),
+			y: originY + (cell.row - centerCell.row) * (NODE_HEIGHT + 60)
+		});
+	});
+	return positions;
+}
+
+// Smallest box around a set of node positions
+function getPositionBounds(positions: Map<string, {x: number, y: number}>): {minX: number, minY: number, width: number, height: number} {
+	const xs = Array.from(positions.values()).map(position => position.x);
+	const ys = Array.from(positions.values()).map(position => position.y);
+	if (xs.length === 0) return {minX: 0, minY: 0, width: 0, height: 0};
+	const minX = Math.min(...xs);
+	const minY = Math.min(...ys);
+	return {minX, minY, width: Math.max(...xs) - minX + NODE_WIDTH, height: Math.max(...ys) - minY + NODE_HEIGHT};
+}
+
+// Top left corners for blocks placed in rows of roughly equal count, in the order given
+function packBlocks(blocks: Array<{width: number, height: number}>, originX: number, originY: number): Array<{x: number, y: number}> {
+	const perRow = Math.ceil(Math.sqrt(blocks.length));
+	const offsets: Array<{x: number, y: number}> = [];
+	let cursorX = originX;
+	let cursorY = originY;
+	let rowHeight = 0;
+	blocks.forEach((block, i) => {
+		if (i > 0 && i % perRow === 0) {
+			cursorX = originX;
+			cursorY += rowHeight + CLUSTER_GAP;
+			rowHeight = 0;
 		}
+		offsets.push({x: cursorX, y: cursorY});
+		cursorX += block.width + CLUSTER_GAP;
+		rowHeight = Math.max(rowHeight, block.height);
+	});
+	return offsets;
+}
 
-		// Calculate target X position for new nodes
-		const targetX = focusNode.x + (direction === 'left' ? -horizontalSpacing : horizontalSpacing);
+// Label propagation over a weighted, undirected link graph: every note takes the label carrying the
+// most link weight among its neighbours until no label changes. Notes are visited in a shuffled but
+// fixed order so the same vault always gives the same clusters.
+function detectClusters(weights: Map<string, Map<string, number>>): Map<string, string> {
+	const labels = new Map<string, string>();
+	const paths = Array.from(weights.keys()).sort();
+	paths.forEach(path => labels.set(path, path));
 
-		// Find existing nodes at the target X position (with some tolerance)
-		const existingNodesAtTargetX = canvasData.nodes.filter((n: any) => {
-			const xDistance = Math.abs(n.x - targetX);
-			return xDistance < (nodeWidth + 100); // 100px tolerance
-		});
-
-		console.log(`Found ${existingNodesAtTargetX.length} existing nodes at target X position ${targetX}`);
+	const random = mulberry32(paths.length);
+	for (let i = paths.length - 1; i > 0; i--) {
+		const j = Math.floor(random() * (i + 1));
+		[paths[i], paths[j]] = [paths[j], paths[i]];
+	}
 
-		// Calculate optimal Y positions for new nodes
-		const newNodePositions: { x: number, y: number }[] = [];
-		
-		// Start with the ideal position (centered around focus node)
-		let idealStartY = focusNode.y - ((nodesToAdd.length - 1) * verticalSpacing) / 2;
-		
-		// For each new node, find the best available Y position
-		for (let i = 0; i < nodesToAdd.length; i++) {
-			const idealY = idealStartY + i * verticalSpacing;
-			let bestY = idealY;
-			
-			// Check if this position conflicts with existing nodes
-			const conflicts = existingNodesAtTargetX.filter((existingNode: any) => {
-				const existingTop = existingNode.y - nodeHeight / 2 - 20; // 20px buffer
-				const existingBottom = existingNode.y + nodeHeight / 2 + 20;
-				const newNodeTop = bestY - nodeHeight / 2;
-				const newNodeBottom = bestY + nodeHeight / 2;
-				
-				return newNodeTop < existingBottom && newNodeBottom > existingTop;
+	for (let round = 0; round < CLUSTER_ROUNDS; round++) {
+		let changed = false;
+		for (const path of paths) {
+			const scores = new Map<string, number>();
+			(weights.get(path) ?? new Map<string, number>()).forEach((weight, neighbour) => {
+				const label = labels.get(neighbour) ?? neighbour;
+				scores.set(label, (scores.get(label) ?? 0) + weight);
 			});
-			
-			if (conflicts.length > 0) {
-				// Find the best alternative position
-				const conflict = conflicts[0];
-				const conflictY = conflict.y;
-				
-				// Try positions above the conflict
-				let tryY = conflictY - nodeHeight - verticalSpacing;
-				let aboveConflicts = existingNodesAtTargetX.filter((existingNode: any) => {
-					const existingTop = existingNode.y - nodeHeight / 2 - 20;
-					const existingBottom = existingNode.y + nodeHeight / 2 + 20;
-					const newNodeTop = tryY - nodeHeight / 2;
-					const newNodeBottom = tryY + nodeHeight / 2;
-					return newNodeTop < existingBottom && newNodeBottom > existingTop;
-				});
-				
-				if (aboveConflicts.length === 0) {
-					bestY = tryY;
-				} else {
-					// Try positions below the conflict
-					tryY = conflictY + nodeHeight + verticalSpacing;
-					const belowConflicts = existingNodesAtTargetX.filter((existingNode: any) => {
-						const existingTop = existingNode.y - nodeHeight / 2 - 20;
-						const existingBottom = existingNode.y + nodeHeight / 2 + 20;
-						const newNodeTop = tryY - nodeHeight / 2;
-						const newNodeBottom = tryY + nodeHeight / 2;
-						return newNodeTop < existingBottom && newNodeBottom > existingTop;
-					});
-					
-					if (belowConflicts.length === 0) {
-						bestY = tryY;
-					} else {
-						// If both above and below are occupied, find the closest free position
-						const allYPositions = existingNodesAtTargetX.map((n: any) => n.y).sort((a: number, b: number) => a - b);
-						let foundPosition = false;
-						
-						for (let j = 0; j < allYPositions.length - 1; j++) {
-							const gapStart = allYPositions[j] + nodeHeight / 2 + verticalSpacing;
-							const gapEnd = allYPositions[j + 1] - nodeHeight / 2 - verticalSpacing;
-							
-							if (gapEnd - gapStart >= nodeHeight) {
-								// Found a gap big enough
-								bestY = gapStart + (gapEnd - gapStart) / 2;
-								foundPosition = true;
-								break;
-							}
-						}
-						
-						if (!foundPosition) {
-							// Place at the end
-							const maxY = Math.max(...allYPositions);
-							bestY = maxY + nodeHeight + verticalSpacing;
-						}
-					}
+			if (scores.size === 0) continue;
+
+			// Keep the current label on a tie, otherwise take the smallest of the best labels
+			const current = labels.get(path) ?? path;
+			const best = Math.max(...Array.from(scores.values()));
+			if (scores.get(current) === best) continue;
+			const next = Array.from(scores.keys()).filter(label => scores.get(label) === best).sort()[0];
+			labels.set(path, next);
+			changed = true;
+		}
+		if (!changed) break;
+	}
+	return labels;
+}
+
+// Shortest path between two nodes of an undirected graph, avoiding blocked nodes and steps
+function findShortestPath(
+	from: string,
+	to: string,
+	neighbours: (node: string) => string[],
+	maxLength: number,
+	blockedNodes: Set<string> = new Set(),
+	blockedSteps: Set<string> = new Set()
+): string[] | null {
+	const previous = new Map<string, string | null>([[from, null]]);
+	let frontier = [from];
+	for (let length = 1; length <= maxLength && frontier.length > 0; length++) {
+		const next: string[] = [];
+		for (const node of frontier) {
+			for (const neighbour of neighbours(node)) {
+				if (previous.has(neighbour) || blockedNodes.has(neighbour) || blockedSteps.has(`${node}\n${neighbour}`)) continue;
+				previous.set(neighbour, node);
+				if (neighbour === to) {
+					const path = [to];
+					for (let step = previous.get(to); step; step = previous.get(step)) path.unshift(step);
+					return path;
 				}
+				next.push(neighbour);
 			}
-			
-			newNodePositions.push({ x: targetX, y: bestY });
 		}
+		frontier = next;
+	}
+	return null;
+}
 
-		// Create and add the new nodes
-		for (let i = 0; i < nodesToAdd.length; i++) {
-			const linkedFile = nodesToAdd[i];
-			const position = newNodePositions[i];
-			
-			// Create new node
-			const newNode = {
-				id: `node-${Date.now()}-${Math.random()}`,
-				type: "file",
-				file: linkedFile.path,
-				x: position.x,
-				y: position.y,
-				width: nodeWidth,
-				height: nodeHeight
-			};
-
-			newNodes.push(newNode);
-
-			// Add edge from focus node to new node
-			const newEdge = {
-				id: `edge-${Date.now()}-${Math.random()}`,
-				fromNode: direction === 'left' ? newNode.id : focusNode.id,
-				fromSide: "right" as const,
-				toNode: direction === 'left' ? focusNode.id : newNode.id,
-				toSide: "left" as const
-			};
+// Every path of the shortest length between two nodes, up to a limit
+function findAllShortestPaths(from: string, to: string, neighbours: (node: string) => string[], maxLength: number, limit: number): string[][] {
+	const distance = new Map<string, number>([[from, 0]]);
+	const predecessors = new Map<string, string[]>();
+	let frontier = [from];
+	for (let length = 1; length <= maxLength && frontier.length > 0 && !distance.has(to); length++) {
+		const next: string[] = [];
+		for (const node of frontier) {
+			for (const neighbour of neighbours(node)) {
+				if (!distance.has(neighbour)) {
+					distance.set(neighbour, length);
+					next.push(neighbour);
+				}
+				if (distance.get(neighbour) === length) {
+					if (!predecessors.has(neighbour)) predecessors.set(neighbour, []);
+					predecessors.get(neighbour)?.push(node);
+				}
+			}
+		}
+		frontier = next;
+	}
+	if (!distance.has(to)) return [];
 
-			canvasData.nodes.push(newNode);
-			canvasData.edges.push(newEdge);
-			
-			console.log(`Added new node: ${linkedFile.basename} at (${position.x}, ${position.y})`);
+	// Walk the predecessors back from the target
+	const paths: string[][] = [];
+	const walk = (node: string, suffix: string[]) => {
+		if (paths.length >= limit) return;
+		if (node === from) {
+			paths.push([from, ...suffix]);
+			return;
 		}
+		(predecessors.get(node) ?? []).forEach(previous => walk(previous, [node, ...suffix]));
+	};
+	walk(to, []);
+	return paths;
+}
 
-		// Update canvas file
-		if (newNodes.length > 0) {
-			canvasData.meta.modified = new Date().toISOString();
-			await this.app.vault.modify(canvasFile, JSON.stringify(canvasData, null, 2));
-			
-			console.log(`Added ${newNodes.length} new nodes to canvas`);
-			
-			// Force refresh the canvas view
-			const activeLeaf = this.app.workspace.activeLeaf;
-			if (activeLeaf && activeLeaf.view && (activeLeaf.view as any).file?.path === canvasFile.path) {
-				// Try multiple ways to refresh the canvas
-				try {
-					(activeLeaf.view as any).canvas?.requestSave();
-					(activeLeaf.view as any).canvas?.loadData();
-					(activeLeaf.view as any).canvas?.redraw();
-				} catch (e) {
-					console.log('Canvas refresh methods not available');
-				}
+// Yen's algorithm: the k shortest simple paths between two nodes
+function findKShortestPaths(from: string, to: string, neighbours: (node: string) => string[], maxLength: number, k: number): string[][] {
+	const first = findShortestPath(from, to, neighbours, maxLength);
+	if (!first) return [];
+
+	const paths = [first];
+	const candidates: string[][] = [];
+	const key = (path: string[]) => path.join('\n');
+	while (paths.length < k) {
+		const last = paths[paths.length - 1];
+		for (let i = 0; i < last.length - 1; i++) {
+			const root = last.slice(0, i + 1);
+			const blockedSteps = new Set<string>();
+			paths.forEach(path => {
+				if (key(path.slice(0, i + 1)) === key(root)) blockedSteps.add(`${path[i]}\n${path[i + 1]}`);
+			});
+			const spur = findShortestPath(last[i], to, neighbours, maxLength - i, new Set(root.slice(0, -1)), blockedSteps);
+			if (!spur) continue;
+			const candidate = [...root.slice(0, -1), ...spur];
+			if (!candidates.concat(paths).some(path => key(path) === key(candidate))) {
+				candidates.push(candidate);
 			}
-		} else {
-			console.log('No new nodes to add');
 		}
+		if (candidates.length === 0) break;
+		candidates.sort((a, b) => a.length - b.length || key(a).localeCompare(key(b)));
+		paths.push(candidates.shift() as string[]);
 	}
+	return paths;
+}
 
-	async expandCanvasManually() {
+// Neighbours of every canvas node, following edges in both directions
+function getCanvasAdjacency(canvasData: CanvasData): Map<string, Set<string>> {
+	const adjacency = new Map<string, Set<string>>();
+	canvasData.nodes.forEach((node: CanvasNode) => adjacency.set(node.id, new Set<string>()));
+	canvasData.edges.forEach((edge: CanvasEdge) => {
+		adjacency.get(edge.fromNode)?.add(edge.toNode);
+		adjacency.get(edge.toNode)?.add(edge.fromNode);
+	});
+	return adjacency;
+}
+
+// Number of edges from the start nodes to every node they reach, never passing through blocked nodes
+function getCanvasDistances(adjacency: Map<string, Set<string>>, starts: string[], blocked: Set<string> = new Set()): Map<string, number> {
+	const distances = new Map<string, number>();
+	let frontier = starts.filter(id => adjacency.has(id) && !blocked.has(id));
+	frontier.forEach(id => distances.set(id, 0));
+	for (let distance = 1; frontier.length > 0; distance++) {
+		const next: string[] = [];
+		frontier.forEach(id => adjacency.get(id)?.forEach(neighbour => {
+			if (distances.has(neighbour) || blocked.has(neighbour)) return;
+			distances.set(neighbour, distance);
+			next.push(neighbour);
+		}));
+		frontier = next;
+	}
+	return distances;
+}
+
+// How many nodes a change added and removed, comparing node ids of two canvas files
+function countNodeChanges(before: string | null, after: string): { added: number, removed: number } {
+	const nodeIds = (content: string | null): Set<string> => {
 		try {
-			// Check if we're currently in a canvas view
-			const activeLeaf = this.app.workspace.activeLeaf;
-			if (!activeLeaf || !activeLeaf.view) {
-				new Notice('Please open a canvas to expand it.');
-				return;
-			}
-			
-			// Check if the active view is a canvas view by checking the file extension
-			const activeFile = (activeLeaf.view as any).file;
-			if (!activeFile || !activeFile.path.endsWith('.canvas')) {
-				new Notice('Please open a canvas to expand it.');
-				return;
+			return new Set((content ? parseCanvas(content).nodes : []).map(node => node.id));
+		} catch (e) {
+			return new Set<string>();
+		}
+	};
+	const beforeIds = nodeIds(before);
+	const afterIds = nodeIds(after);
+	return {
+		added: Array.from(afterIds).filter(id => !beforeIds.has(id)).length,
+		removed: Array.from(beforeIds).filter(id => !afterIds.has(id)).length
+	};
+}
+
+// What a canvas for a note would contain, computed without writing it
+interface CanvasPreview {
+	centerPath: string;
+	nodes: LinkGraphNode[];
+	connections: Map<string, Set<string>>;
+	positions: Map<string, {x: number, y: number}>;
+	truncated: boolean;
+}
+
+// Notes and links a preview adds at one level, split into the backlink and forward link side
+interface PreviewLevel {
+	level: number;
+	backlinkNotes: number;
+	forwardNotes: number;
+	backlinkEdges: number;
+	forwardEdges: number;
+}
+
+// Most connected notes listed in the preview
+const PREVIEW_TOP_NOTES = 5;
+
+function summarizePreview(preview: CanvasPreview): { levels: PreviewLevel[], edgeCount: number, topNotes: Array<{file: TFile, degree: number}> } {
+	const nodesByPath = new Map(preview.nodes.map(node => [node.file.path, node] as [string, LinkGraphNode]));
+	const levels: PreviewLevel[] = [];
+	const getLevel = (level: number): PreviewLevel => {
+		while (levels.length <= level) {
+			levels.push({ level: levels.length, backlinkNotes: 0, forwardNotes: 0, backlinkEdges: 0, forwardEdges: 0 });
+		}
+		return levels[level];
+	};
+
+	preview.nodes.forEach(node => {
+		if (node.level === 0) return;
+		const row = getLevel(node.level);
+		if (node.isBacklink) row.backlinkNotes++;
+		else row.forwardNotes++;
+	});
+
+	const degrees = new Map<string, number>();
+	let edgeCount = 0;
+	preview.connections.forEach((targets, from) => targets.forEach(to => {
+		const source = nodesByPath.get(from);
+		const target = nodesByPath.get(to);
+		if (!source || !target || from === to) return;
+		edgeCount++;
+		degrees.set(from, (degrees.get(from) ?? 0) + 1);
+		degrees.set(to, (degrees.get(to) ?? 0) + 1);
+		// A link counts towards the level and side of whichever end is further from the center
+		const outer = target.level >= source.level ? target : source;
+		if (outer.level === 0) return;
+		const row = getLevel(outer.level);
+		if (outer.isBacklink) row.backlinkEdges++;
+		else row.forwardEdges++;
+	}));
+
+	const topNotes = Array.from(degrees.entries())
+		.filter(([path]) => path !== preview.centerPath)
+		.sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+		.slice(0, PREVIEW_TOP_NOTES)
+		.map(([path, degree]) => ({ file: (nodesByPath.get(path) as LinkGraphNode).file, degree }));
+
+	return { levels: levels.slice(1), edgeCount, topNotes };
+}
+
+// Small picture of the computed layout: links as lines, notes as boxes, the center note highlighted
+function renderLayoutThumbnail(containerEl: HTMLElement, preview: CanvasPreview) {
+	const bounds = getPositionBounds(preview.positions);
+	const padding = NODE_WIDTH / 2;
+	const svg = containerEl.createSvg('svg', {
+		cls: 'canvas-auto-gen-thumbnail',
+		attr: {
+			viewBox: `${bounds.minX - padding} ${bounds.minY - padding} ${bounds.width + 2 * padding} ${bounds.height + 2 * padding}`,
+			preserveAspectRatio: 'xMidYMid meet'
+		}
+	});
+
+	preview.connections.forEach((targets, from) => targets.forEach(to => {
+		const start = preview.positions.get(from);
+		const end = preview.positions.get(to);
+		if (!start || !end || from === to) return;
+		svg.createSvg('line', {
+			cls: 'canvas-auto-gen-thumbnail-edge',
+			attr: {
+				x1: start.x + NODE_WIDTH / 2,
+				y1: start.y + NODE_HEIGHT / 2,
+				x2: end.x + NODE_WIDTH / 2,
+				y2: end.y + NODE_HEIGHT / 2
 			}
+		});
+	}));
+
+	preview.positions.forEach((position, path) => {
+		svg.createSvg('rect', {
+			cls: path === preview.centerPath ? 'canvas-auto-gen-thumbnail-node is-center' : 'canvas-auto-gen-thumbnail-node',
+			attr: { x: position.x, y: position.y, width: NODE_WIDTH, height: NODE_HEIGHT, rx: 16 }
+		});
+	});
+}
 
-			// Get the canvas file
-			const canvasFile = activeFile;
+export default class CanvasAutoGenPlugin extends Plugin {
+	settings: CanvasAutoGenSettings;
 
-			// Extract the original note name from canvas filename
-			const canvasName = canvasFile.basename;
-			const originalNoteName = canvasName.replace('_canvas', '');
-			
-			// Find the original note
-			const originalNote = this.app.vault.getAbstractFileByPath(`${originalNoteName}.md`);
-			if (!originalNote || !(originalNote instanceof TFile)) {
-				new Notice('Could not find the original note for this canvas.');
-				return;
+	// Vault changes waiting to be applied to open generated canvases
+	private liveSyncQueue = { changed: new Set<string>(), renamed: new Map<string, string>(), deleted: new Set<string>() };
+	private flushLiveSync = debounce(() => this.applyLiveSyncChanges(), LIVE_SYNC_DELAY, true);
+
+	// Undo and redo snapshots per canvas path
+	private history: Record<string, CanvasHistory> = {};
+	// Canvases the plugin is deleting itself, whose history must survive the delete
+	private restoringCanvases = new Set<string>();
+	private lastUndoneCanvasPath: string | null = null;
+
+	// Meta of open canvases. The live canvas only keeps nodes and edges and its saves write only those,
+	// so the meta is kept here and merged back into the file once the view has saved.
+	private openCanvasMeta = new Map<string, CanvasData['meta']>();
+
+	// Notes linking to each path, built on first use and kept current from metadata events
+	private backlinkIndex: Map<string, Set<string>> | null = null;
+	// Link targets each note had when it was indexed, so its old entries can be removed
+	private indexedLinks = new Map<string, string[]>();
+
+	async onload() {
+		await this.loadSettings();
+		await this.loadHistory();
+
+		// Add ribbon icon for manual canvas generation
+		const ribbonIconEl = this.addRibbonIcon('canvas', 'Generate Canvas for Active Note', (evt: MouseEvent) => {
+			this.generateCanvasForActiveNote();
+		});
+		ribbonIconEl.addClass('canvas-auto-gen-ribbon-class');
+
+		// Add command for manual canvas generation
+		this.addCommand({
+			id: 'generate-canvas-for-active-note',
+			name: 'Generate Canvas for Active Note',
+			callback: () => {
+				this.generateCanvasForActiveNote();
 			}
+		});
 
-			// Read current canvas content
-			const currentContent = await this.app.vault.read(canvasFile);
-			let canvasData;
-			try {
-				canvasData = JSON.parse(currentContent);
-			} catch (e) {
-				new Notice('Invalid canvas data.');
-				return;
+		// Add command that only works when a markdown file is active
+		this.addCommand({
+			id: 'generate-canvas-for-active-note-complex',
+			name: 'Generate Canvas for Active Note (Complex)',
+			checkCallback: (checking: boolean) => {
+				const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
+				if (markdownView) {
+					if (!checking) {
+						this.generateCanvasForActiveNote();
+					}
+					return true;
+				}
+				return false;
 			}
+		});
 
-			// Get all existing file paths in the canvas
-			const existingPaths = new Set(canvasData.nodes.map((n: any) => n.file));
-			let expanded = false;
+		// Add command to generate a canvas for any note without opening it
+		this.addCommand({
+			id: 'generate-canvas-for-file',
+			name: 'Generate Canvas for File',
+			callback: () => {
+				new NoteSuggestModal(this.app, this.app.vault.getMarkdownFiles(), 'Choose a note to generate a canvas for', (note) => {
+					this.generateCanvasForFile(note);
+				}).open();
+			}
+		});
 
-			// Try to expand from all nodes that have connections
-			for (const node of canvasData.nodes) {
-				const nodeNote = this.app.vault.getAbstractFileByPath(node.file);
-				if (!nodeNote || !(nodeNote instanceof TFile)) continue;
+		// Add command to generate a canvas with a layout other than the default
+		this.addCommand({
+			id: 'generate-canvas-with-layout',
+			name: 'Generate Canvas with Layout...',
+			callback: () => {
+				new LayoutSuggestModal(this.app, (engine) => {
+					this.generateCanvasForActiveNote({ layout: engine.id });
+				}).open();
+			}
+		});
 
-				// Get forward links from this node
-				const forwardLinks = this.getForwardLinks(nodeNote);
-				const newForwardLinks = forwardLinks.filter(link => !existingPaths.has(link.path));
-				
-				if (newForwardLinks.length > 0) {
-					console.log(`Found ${newForwardLinks.length} new forward links from ${nodeNote.basename}`);
-					await this.expandCanvas(canvasFile, nodeNote, 'right');
-					expanded = true;
-					// Update existing paths after expansion
-					const updatedContent = await this.app.vault.read(canvasFile);
-					const updatedData = JSON.parse(updatedContent);
-					updatedData.nodes.forEach((n: any) => existingPaths.add(n.file));
-				}
+		// Add command to generate a canvas with filters other than the defaults
+		this.addCommand({
+			id: 'generate-canvas-with-filters',
+			name: 'Generate Canvas with Filters...',
+			callback: () => {
+				new FilterModal(this.app, this.settings.filters, (filters) => {
+					this.generateCanvasForActiveNote({ filters });
+				}).open();
+			}
+		});
 
-				// Get backlinks to this node
-				const backlinks = this.getBacklinks(nodeNote);
-				const newBacklinks = backlinks.filter(link => !existingPaths.has(link.path));
-				
-				if (newBacklinks.length > 0) {
-					console.log(`Found ${newBacklinks.length} new backlinks to ${nodeNote.basename}`);
-					await this.expandCanvas(canvasFile, nodeNote, 'left');
-					expanded = true;
-					// Update existing paths after expansion
-					const updatedContent = await this.app.vault.read(canvasFile);
-					const updatedData = JSON.parse(updatedContent);
-					updatedData.nodes.forEach((n: any) => existingPaths.add(n.file));
+		// Add command to see what a canvas would contain before writing it
+		this.addCommand({
+			id: 'preview-canvas',
+			name: 'Preview Canvas for Active Note...',
+			callback: () => {
+				const activeFile = this.app.workspace.getActiveFile();
+				if (!activeFile || activeFile.extension !== 'md') {
+					new Notice('No active markdown file found. Please open a markdown file first.');
+					return;
 				}
+				new CanvasPreviewModal(this.app, this, activeFile, this.getGenerationOptions()).open();
 			}
+		});
 
-			if (expanded) {
-				new Notice('Canvas expanded successfully!');
-			} else {
-				new Notice('No new connections found to expand the canvas.');
+		// Add command to generate a canvas with one of the saved profiles
+		this.addCommand({
+			id: 'generate-canvas-with-profile',
+			name: 'Generate Canvas with Profile...',
+			callback: () => {
+				this.chooseProfile((options) => this.generateCanvasForActiveNote(options));
 			}
+		});
 
-		} catch (error) {
-			console.error('Error expanding canvas manually:', error);
-			new Notice('Error expanding canvas manually');
-		}
-	}
-	
-	getAllNodesWithDepth(centerFile: TFile, depth: number): Array<{file: TFile, level: number, isBacklink: boolean}> {
-		const visited = new Set<string>();
-		const nodes: Array<{file: TFile, level: number, isBacklink: boolean}> = [];
-		
-		// Add center node
-		nodes.push({file: centerFile, level: 0, isBacklink: false});
-		visited.add(centerFile.path);
-		
-		// Explore backlinks and forward links up to specified depth
-		this.exploreLinks(centerFile, depth, 1, visited, nodes, true); // Backlinks
-		this.exploreLinks(centerFile, depth, 1, visited, nodes, false); // Forward links
-		
-		return nodes;
-	}
-	
-	private exploreAllConnections(
-		file: TFile,
-		maxDepth: number,
-		currentDepth: number,
-		visited: Set<string>,
-		nodes: Array<{file: TFile, level: number, isBacklink: boolean}>,
-		connections: Map<string, Set<string>>
+		// Start a canvas from several notes at once
+		this.addCommand({
+			id: 'generate-canvas-from-folder',
+			name: 'Generate Canvas from Folder',
+			callback: () => {
+				const folders = this.app.vault.getAllLoadedFiles().filter((file): file is TFolder => file instanceof TFolder);
+				new FolderSuggestModal(this.app, folders, (folder) => {
+					this.generateSeedCanvas({ kind: 'folder', path: folder.path });
+				}).open();
+			}
+		});
+
+		this.addCommand({
+			id: 'generate-canvas-from-tag',
+			name: 'Generate Canvas from Tag',
+			callback: () => {
+				new TagSuggestModal(this.app, this.getAllTags(), (tag) => {
+					this.generateSeedCanvas({ kind: 'tag', tag });
+				}).open();
+			}
+		});
+
+		this.addCommand({
+			id: 'generate-canvas-from-query',
+			name: 'Generate Canvas from Search Query',
+			callback: () => {
+				new SeedQueryModal(this.app, (query) => {
+					this.generateSeedCanvas({ kind: 'query', query });
+				}).open();
+			}
+		});
+
+		this.registerEvent(
+			this.app.workspace.on('files-menu', (menu: Menu, files: TAbstractFile[]) => {
+				const notes = files.filter((file): file is TFile => file instanceof TFile && file.extension === 'md');
+				if (notes.length < 2) return;
+				this.addGenerateMenuItems(menu, notes, 'from selected notes');
+			})
+		);
+		this.registerEvent(
+			this.app.workspace.on('file-menu', (menu: Menu, file: TAbstractFile) => {
+				if (file instanceof TFile && file.extension === 'md') {
+					this.addGenerateMenuItems(menu, [file]);
+					return;
+				}
+				if (!(file instanceof TFolder)) return;
+				menu.addItem(item => item
+					.setTitle('Generate canvas from folder')
+					.setIcon('layout-dashboard')
+					.onClick(() => this.generateSeedCanvas({ kind: 'folder', path: file.path })));
+			})
+		);
+		// Right-clicking a wikilink in the editor generates a canvas for the note it links to
+		this.registerEvent(
+			this.app.workspace.on('editor-menu', (menu: Menu, editor: Editor, info: MarkdownView | MarkdownFileInfo) => {
+				const target = info.file ? this.getLinkTargetAtCursor(editor, info.file) : null;
+				if (target) {
+					this.addGenerateMenuItems(menu, [target], `for ${target.basename}`);
+				}
+			})
+		);
+
+		// Add command to export the graph of a note or canvas to other tools
+		this.addCommand({
+			id: 'export-link-graph',
+			name: 'Export Link Graph...',
+			callback: () => {
+				new ExportFormatSuggestModal(this.app, (format) => {
+					this.exportGraphForActiveView(format);
+				}).open();
+			}
+		});
+
+		// Add command to turn edges drawn on a canvas into links in the notes
+		this.addCommand({
+			id: 'sync-edges-to-notes',
+			name: 'Sync Edges to Notes',
+			callback: () => {
+				this.syncEdgesToNotes();
+			}
+		});
+
+		// Add command to map the whole vault
+		this.addCommand({
+			id: 'generate-vault-overview',
+			name: 'Generate Vault Overview Canvas',
+			callback: () => {
+				this.generateVaultOverview();
+			}
+		});
+
+		// Add command to draw how two notes are connected
+		this.addCommand({
+			id: 'generate-path-canvas',
+			name: 'Generate Path Canvas Between Two Notes',
+			callback: () => {
+				const notes = this.app.vault.getMarkdownFiles();
+				new NoteSuggestModal(this.app, notes, 'Choose the note to start from', (from) => {
+					new NoteSuggestModal(this.app, notes.filter(note => note !== from), `Choose the note to connect ${from.basename} to`, (to) => {
+						this.generatePathCanvas(from, to);
+					}).open();
+				}).open();
+			}
+		});
+
+		// Add command to manually trigger canvas expansion
+		this.addCommand({
+			id: 'expand-canvas-manually',
+			name: 'Expand Canvas Manually',
+			callback: () => {
+				this.expandCanvasManually();
+			}
+		});
+
+		// Expand every note on the canvas in one direction
+		this.addCommand({
+			id: 'expand-canvas-left',
+			name: 'Expand Canvas Left',
+			callback: () => {
+				this.expandCanvasInDirection('left');
+			}
+		});
+
+		this.addCommand({
+			id: 'expand-canvas-right',
+			name: 'Expand Canvas Right',
+			callback: () => {
+				this.expandCanvasInDirection('right');
+			}
+		});
+
+		// Remove nodes that were expanded from the selected node
+		this.addCommand({
+			id: 'collapse-canvas-node',
+			name: 'Collapse Selected Canvas Node',
+			callback: () => {
+				this.collapseSelectedCanvasNode();
+			}
+		});
+
+		this.addCommand({
+			id: 'prune-canvas',
+			name: 'Prune Canvas by Distance from Center',
+			callback: () => {
+				this.pruneCanvas();
+			}
+		});
+
+		this.addCommand({
+			id: 'remove-isolated-canvas-nodes',
+			name: 'Remove Isolated Canvas Nodes',
+			callback: () => {
+				this.removeIsolatedCanvasNodes();
+			}
+		});
+
+		// Step back and forth through the changes the plugin made to a canvas
+		this.addCommand({
+			id: 'undo-canvas-change',
+			name: 'Undo Last Canvas Expansion',
+			callback: () => {
+				this.undoCanvasChange();
+			}
+		});
+
+		this.addCommand({
+			id: 'redo-canvas-change',
+			name: 'Redo Canvas Change',
+			callback: () => {
+				this.redoCanvasChange();
+			}
+		});
+
+		this.addCommand({
+			id: 'show-canvas-history',
+			name: 'Show Canvas History',
+			callback: () => {
+				this.showCanvasHistory();
+			}
+		});
+
+		// Add command to rebuild an existing canvas from the current link graph
+		this.addCommand({
+			id: 'refresh-canvas',
+			name: 'Refresh Canvas',
+			callback: () => {
+				this.refreshCanvasForActiveView();
+			}
+		});
+
+		// Add command to turn an unresolved link placeholder into a real note
+		this.addCommand({
+			id: 'create-note-from-placeholder',
+			name: 'Create Note from Placeholder',
+			callback: () => {
+				this.createNoteFromPlaceholder();
+			}
+		});
+
+		// Note: Canvas context menu integration requires Obsidian API support
+		// This feature will be available when the API supports it
+
+		// Auto-generate canvas when opening files (if enabled)
+		if (this.settings.autoGenerateOnOpen) {
+			this.registerEvent(
+				this.app.workspace.on('file-open', (file: TFile | null) => {
+					if (file && file.extension === 'md') {
+						// Small delay to ensure the file is fully loaded
+						setTimeout(() => {
+							this.generateCanvasForActiveNote();
+						}, 100);
+					}
+				})
+			);
+		}
+
+		// Expand single notes from their context menu or hover handles
+		this.setupNodeExpansion();
+
+		// Style unresolved link placeholders whenever canvases are shown
+		this.registerEvent(this.app.workspace.on('layout-change', () => this.markPlaceholderNodes()));
+		this.registerEvent(this.app.workspace.on('active-leaf-change', () => this.markPlaceholderNodes()));
+
+		// Put back the meta of open canvases after their view saved, and once they are closed
+		this.registerEvent(
+			this.app.vault.on('modify', (file: TAbstractFile) => {
+				if (file instanceof TFile && this.openCanvasMeta.has(file.path)) {
+					this.writeCanvasMeta(file);
+				}
+			})
+		);
+		this.registerEvent(this.app.workspace.on('layout-change', () => this.flushClosedCanvasMeta()));
+		this.registerEvent(
+			this.app.vault.on('rename', (file: TAbstractFile, oldPath: string) => {
+				const meta = this.openCanvasMeta.get(oldPath);
+				if (!meta) return;
+				this.openCanvasMeta.delete(oldPath);
+				this.openCanvasMeta.set(file.path, meta);
+			})
+		);
+		this.registerEvent(
+			this.app.vault.on('delete', (file: TAbstractFile) => {
+				this.openCanvasMeta.delete(file.path);
+			})
+		);
+
+		// History follows canvases when they are renamed and is dropped when they are deleted
+		this.registerEvent(
+			this.app.vault.on('rename', (file: TAbstractFile, oldPath: string) => {
+				if (!this.history[oldPath]) return;
+				this.history[file.path] = this.history[oldPath];
+				delete this.history[oldPath];
+				this.saveHistory();
+			})
+		);
+		this.registerEvent(
+			this.app.vault.on('delete', (file: TAbstractFile) => {
+				if (!this.history[file.path] || this.restoringCanvases.has(file.path)) return;
+				delete this.history[file.path];
+				this.saveHistory();
+			})
+		);
+
+		// Keep the backlink index current as links are resolved, renamed and deleted
+		this.registerEvent(
+			this.app.metadataCache.on('resolve', (file: TFile) => {
+				if (!this.backlinkIndex) return;
+				this.unindexLinksFrom(file.path);
+				this.indexLinksFrom(file.path);
+			})
+		);
+		this.registerEvent(
+			this.app.vault.on('rename', (file: TAbstractFile, oldPath: string) => {
+				if (this.backlinkIndex) this.renameInBacklinkIndex(oldPath, file.path);
+			})
+		);
+		this.registerEvent(
+			this.app.vault.on('delete', (file: TAbstractFile) => {
+				if (!this.backlinkIndex) return;
+				this.unindexLinksFrom(file.path);
+				this.backlinkIndex.delete(file.path);
+			})
+		);
+
+		// Keep open generated canvases in sync with link changes (if enabled)
+		this.registerEvent(
+			this.app.metadataCache.on('changed', (file: TFile) => {
+				if (!this.settings.liveSyncCanvases || file.extension !== 'md') return;
+				this.liveSyncQueue.changed.add(file.path);
+				this.flushLiveSync();
+			})
+		);
+		this.registerEvent(
+			this.app.vault.on('rename', (file: TAbstractFile, oldPath: string) => {
+				if (!this.settings.liveSyncCanvases) return;
+				this.liveSyncQueue.renamed.set(oldPath, file.path);
+				this.flushLiveSync();
+			})
+		);
+		this.registerEvent(
+			this.app.vault.on('delete', (file: TAbstractFile) => {
+				if (!this.settings.liveSyncCanvases) return;
+				this.liveSyncQueue.deleted.add(file.path);
+				this.flushLiveSync();
+			})
+		);
+
+		// Add settings tab
+		this.addSettingTab(new CanvasAutoGenSettingTab(this.app, this));
+	}
+
+	onunload() {
+		// Changes still waiting for the live sync are dropped with the plugin
+		this.flushLiveSync.cancel();
+		// Canvases that are still open keep the meta of their last change
+		this.openCanvasMeta.forEach((meta, path) => {
+			const canvasFile = this.app.vault.getAbstractFileByPath(path);
+			if (canvasFile instanceof TFile) this.writeCanvasMeta(canvasFile);
+		});
+		this.removeExpandHandles();
+	}
+
+	async loadSettings() {
+		const data = await this.loadData();
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+		// Nested settings are merged separately so new keys get their defaults
+		this.settings.filters = Object.assign({}, DEFAULT_SETTINGS.filters, data?.filters);
+		// The link depth used to cover backlinks as well
+		if (typeof data?.linkDepth === 'number' && typeof data?.backlinkDepth !== 'number') {
+			this.settings.backlinkDepth = data.linkDepth;
+		}
+		if (!Array.isArray(data?.profiles)) {
+			this.settings.profiles = DEFAULT_SETTINGS.profiles.map(profile => ({ ...profile }));
+		} else {
+			// Profiles used to have a single depth for both sides
+			this.settings.profiles = data.profiles.map((saved: GenerationProfile & { depth?: number }) => {
+				const { depth, ...profile } = saved;
+				if (typeof depth !== 'number') return profile;
+				return { ...profile, forwardDepth: profile.forwardDepth ?? depth, backlinkDepth: profile.backlinkDepth ?? depth };
+			});
+		}
+	}
+
+	async saveSettings() {
+		await this.saveData(this.settings);
+	}
+
+	getHistoryPath(): string {
+		return normalizePath(`${this.manifest.dir}/${HISTORY_FILE}`);
+	}
+
+	async loadHistory() {
+		try {
+			const path = this.getHistoryPath();
+			if (await this.app.vault.adapter.exists(path)) {
+				this.history = JSON.parse(await this.app.vault.adapter.read(path));
+			}
+		} catch (error) {
+			console.error('Error loading canvas history:', error);
+			this.history = {};
+		}
+	}
+
+	async saveHistory() {
+		try {
+			await this.app.vault.adapter.write(this.getHistoryPath(), JSON.stringify(this.history));
+		} catch (error) {
+			console.error('Error saving canvas history:', error);
+		}
+	}
+
+	async recordHistory(canvasPath: string, operation: string, before: string | null, after: string) {
+		if (before === after) return;
+		const history = this.history[canvasPath] ?? (this.history[canvasPath] = { undo: [], redo: [] });
+		history.undo.push({ operation, time: new Date().toISOString(), before, after, ...countNodeChanges(before, after) });
+		if (history.undo.length > HISTORY_LIMIT) {
+			history.undo.splice(0, history.undo.length - HISTORY_LIMIT);
+		}
+		// A new change replaces whatever could have been redone
+		history.redo = [];
+		await this.saveHistory();
+	}
+
+	// Pick a profile and pass on its options
+	chooseProfile(onChoose: (options: GenerationOptions) => void) {
+		if (this.settings.profiles.length === 0) {
+			new Notice('No profiles yet. Save one in the plugin settings.');
+			return;
+		}
+		new ProfileSuggestModal(this.app, this.settings.profiles, (profile) => {
+			onChoose(this.getProfileOptions(profile));
+		}).open();
+	}
+
+	// Menu entries that generate a canvas for one note, or one canvas seeded with several notes
+	addGenerateMenuItems(menu: Menu, notes: TFile[], suffix?: string) {
+		const generate = (options?: GenerationOptions) => notes.length === 1
+			? this.generateCanvasForFile(notes[0], options)
+			: this.generateSeedCanvas({ kind: 'files', paths: notes.map(note => note.path) }, options);
+		const title = suffix ? `Generate canvas ${suffix}` : 'Generate canvas';
+		menu.addItem(item => item
+			.setTitle(title)
+			.setIcon('layout-dashboard')
+			.onClick(() => generate()));
+		menu.addItem(item => item
+			.setTitle(`${title} with profile...`)
+			.setIcon('layout-dashboard')
+			.onClick(() => this.chooseProfile(options => generate(options))));
+		if (notes.length === 1) {
+			menu.addItem(item => item
+				.setTitle(suffix ? `Preview canvas ${suffix}` : 'Preview canvas')
+				.setIcon('eye')
+				.onClick(() => new CanvasPreviewModal(this.app, this, notes[0], this.getGenerationOptions()).open()));
+		}
+	}
+
+	// The note a wikilink under the cursor points to
+	getLinkTargetAtCursor(editor: Editor, sourceFile: TFile): TFile | null {
+		const cursor = editor.getCursor();
+		const line = editor.getLine(cursor.line);
+		const pattern = /!?\[\[([^\]]+)\]\]/g;
+		let match: RegExpExecArray | null;
+		while ((match = pattern.exec(line)) !== null) {
+			if (cursor.ch < match.index || cursor.ch > match.index + match[0].length) continue;
+			const { path } = parseLinktext(match[1].split('|')[0]);
+			const target = this.app.metadataCache.getFirstLinkpathDest(path || sourceFile.path, sourceFile.path);
+			return target && target.extension === 'md' ? target : null;
+		}
+		return null;
+	}
+
+	async generateCanvasForActiveNote(overrides: Partial<GenerationOptions> = {}) {
+		// Check if we're currently in a canvas view - if so, don't generate a new canvas
+		const activeLeaf = this.app.workspace.activeLeaf;
+		if (activeLeaf && activeLeaf.view) {
+			const activeFile = (activeLeaf.view as CanvasViewLike).file;
+			if (activeFile && activeFile.path.endsWith('.canvas')) {
+				// We're in a canvas view, don't generate a new canvas
+				return;
+			}
+		}
+
+		// Try multiple ways to get the active file
+		let activeFile: TFile | null = null;
+		
+		// Method 1: Get from active view
+		const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
+		if (activeView && activeView.file) {
+			activeFile = activeView.file;
+		}
+		
+		// Method 2: Get from workspace active file
+		if (!activeFile) {
+			activeFile = this.app.workspace.getActiveFile();
+		}
+		
+		if (!activeFile) {
+			new Notice('No active markdown file found. Please open a markdown file first.');
+			return;
+		}
+		
+		// Check if it's a markdown file
+		if (activeFile.extension !== 'md') {
+			new Notice('Active file is not a markdown file. Please open a .md file.');
+			return;
+		}
+
+		await this.generateCanvasForFile(activeFile, this.getGenerationOptions(overrides));
+	}
+
+	getGenerationOptions(overrides: Partial<GenerationOptions> = {}): GenerationOptions {
+		return Object.assign({
+			forwardDepth: this.settings.linkDepth,
+			backlinkDepth: this.settings.backlinkDepth,
+			direction: this.settings.linkDirection,
+			layout: this.settings.defaultLayout,
+			filters: { ...this.settings.filters },
+			styling: this.getStyling(),
+			outputFolder: this.settings.outputFolder,
+			canvasNameTemplate: this.settings.canvasNameTemplate,
+			maxPathLength: this.settings.maxPathLength,
+			pathCount: this.settings.pathCount
+		}, overrides);
+	}
+
+	getStyling(): CanvasStyling {
+		return {
+			colorRules: this.settings.colorRules.slice(),
+			groupBy: this.settings.groupBy,
+			groupProperty: this.settings.groupProperty,
+			edgeLabels: this.settings.edgeLabels,
+			edgeWeightColors: this.settings.edgeWeightColors
+		};
+	}
+
+	// The options of a profile, with the settings filling in whatever it leaves out
+	getProfileOptions(profile: GenerationProfile): GenerationOptions {
+		const { name, styling, filters, ...overrides } = profile;
+		return this.getGenerationOptions({
+			...overrides,
+			filters: { ...this.settings.filters, ...filters },
+			styling: { ...this.getStyling(), ...styling },
+			profile: name
+		});
+	}
+
+	// The options a canvas was generated with, falling back to the settings for older canvases
+	getStoredGenerationOptions(canvasData: CanvasData): GenerationOptions {
+		const stored: StoredGenerationOptions = canvasData?.meta?.canvasAutoGen?.options ?? {};
+		const overrides: Partial<GenerationOptions> = {};
+		// Older canvases have a single depth for both sides
+		const forwardDepth = typeof stored.forwardDepth === 'number' ? stored.forwardDepth : stored.depth;
+		const backlinkDepth = typeof stored.backlinkDepth === 'number' ? stored.backlinkDepth : stored.depth;
+		if (typeof forwardDepth === 'number') overrides.forwardDepth = forwardDepth;
+		if (typeof backlinkDepth === 'number') overrides.backlinkDepth = backlinkDepth;
+		const direction = LINK_DIRECTIONS.find(candidate => candidate.id === stored.direction);
+		if (direction) overrides.direction = direction.id;
+		const engine = LAYOUT_ENGINES.find(candidate => candidate.id === stored.layout);
+		if (engine) overrides.layout = engine.id;
+		if (isJsonObject(stored.filters)) {
+			overrides.filters = { ...this.settings.filters, ...stored.filters };
+		}
+		if (isJsonObject(stored.styling)) {
+			overrides.styling = { ...this.getStyling(), ...stored.styling };
+		}
+		if (typeof stored.maxPathLength === 'number') overrides.maxPathLength = stored.maxPathLength;
+		if (typeof stored.pathCount === 'number') overrides.pathCount = stored.pathCount;
+		if (typeof stored.profile === 'string') overrides.profile = stored.profile;
+		return this.getGenerationOptions(overrides);
+	}
+
+	// What the canvas records about its options, so a refresh can generate it the same way
+	getOptionsState(options: GenerationOptions): StoredGenerationOptions {
+		return {
+			profile: options.profile,
+			forwardDepth: options.forwardDepth,
+			backlinkDepth: options.backlinkDepth,
+			direction: options.direction,
+			layout: options.layout,
+			filters: options.filters,
+			styling: options.styling
+		};
+	}
+
+	// Canvas around one note, or around several seed notes that all start at level 0
+	async buildCanvasData(seeds: TFile | TFile[], options: GenerationOptions = this.getGenerationOptions(), seedSource?: SeedSource): Promise<CanvasData> {
+		const seedFiles = Array.isArray(seeds) ? seeds : [seeds];
+		const activeFile = seedFiles[0];
+		const multiSeed = seedFiles.length > 1;
+
+		// Get all nodes and their connections
+		const { nodes: allNodes, connections, truncated } = await this.getAllNodesAndConnections(seedFiles, options);
+		
+		// Calculate positions with the chosen layout engine
+		const engine = getLayoutEngine(options.layout);
+		const positions = this.layoutNodes(seedFiles, allNodes, connections, engine);
+		
+		// Pull nodes that share a folder or property together so their group doesn't cover other nodes
+		if (options.styling.groupBy !== 'none') {
+			this.packGroups(positions, allNodes, activeFile, options.styling);
+		}
+		
+		// Create nodes array, the center node comes first
+		const nodes: CanvasNode[] = [];
+		
+		// Create a map of file paths to node IDs for edge creation
+		const fileToNodeId = new Map<string, string>();
+		const nodesById = new Map<string, CanvasNode>();
+		
+		for (const nodeInfo of allNodes) {
+			const position = positions.get(nodeInfo.file.path);
+			if (!position || fileToNodeId.has(nodeInfo.file.path)) continue;
+			
+			const node: CanvasFileNode = {
+				id: this.getNodeId(nodeInfo.file.path),
+				type: "file",
+				file: nodeInfo.file.path,
+				x: Math.round(position.x),
+				y: Math.round(position.y),
+				width: NODE_WIDTH,
+				height: NODE_HEIGHT
+			};
+			this.applyColorRules(node, nodeInfo.file, options.styling);
+			if (multiSeed && nodeInfo.level === 0) {
+				node.color = ROOT_COLOR;
+			}
+			nodes.push(node);
+			fileToNodeId.set(nodeInfo.file.path, node.id);
+			nodesById.set(node.id, node);
+		}
+		
+		// Create edges (arrows) for all connections
+		const edges: CanvasEdge[] = [];
+		
+		// Add all connections between nodes
+		for (const [fromPath, toPaths] of connections.entries()) {
+			const fromNodeId = fileToNodeId.get(fromPath);
+			if (fromNodeId) {
+				for (const toPath of toPaths) {
+					const toNodeId = fileToNodeId.get(toPath);
+					if (toNodeId && fromNodeId !== toNodeId) {
+						// The layered layout always reads left to right, other layouts attach to the nearest sides
+						const sides: {fromSide: CanvasSide, toSide: CanvasSide} = engine.id === 'layered'
+							? {fromSide: "right", toSide: "left"}
+							: getEdgeSides(nodesById.get(fromNodeId)!, nodesById.get(toNodeId)!);
+						edges.push({
+							id: this.getEdgeId(fromNodeId, toNodeId),
+							fromNode: fromNodeId,
+							fromSide: sides.fromSide,
+							toNode: toNodeId,
+							toSide: sides.toSide
+						});
+					}
+				}
+			}
+		}
+		
+		const canvasData: CanvasData = {
+			nodes: nodes,
+			edges: edges,
+			meta: {
+				created: new Date().toISOString(),
+				modified: new Date().toISOString(),
+				canvasAutoGen: {
+					source: activeFile.path,
+					seeds: multiSeed ? seedFiles.map(file => file.path) : undefined,
+					seedSource,
+					truncated: truncated || undefined,
+					version: this.manifest.version,
+					options: this.getOptionsState(options)
+				}
+			}
+		};
+		
+		// Heading and block links get nodes of their own, the center note is only split when there is one
+		if (this.settings.linkGranularity === 'section' || (this.settings.splitCenterNote && !multiSeed)) {
+			this.splitNodesIntoSections(canvasData, multiSeed ? null : activeFile);
+		}
+		if (options.styling.groupBy !== 'none') {
+			this.addGroupNodes(canvasData, activeFile, options.styling);
+		}
+		canvasData.nodes.forEach(node => this.recordGeneratedNode(canvasData, node));
+		
+		// Show counts, aliases or context on the edges
+		await this.decorateEdges(canvasData, canvasData.edges, options.styling);
+		canvasData.edges.forEach(edge => this.recordGeneratedEdge(canvasData, edge));
+		
+		// Unresolved links become placeholders next to the notes that contain them
+		this.addPlaceholderNodes(canvasData, canvasData.nodes.slice());
+
+		return canvasData;
+	}
+	
+	// Positions from the layout engine, computed once per seed when there are several
+	layoutNodes(seeds: TFile[], nodes: LinkGraphNode[], connections: Map<string, Set<string>>, engine: LayoutEngine): Map<string, {x: number, y: number}> {
+		if (seeds.length > 1) {
+			return this.layoutSeedClusters(seeds, nodes, connections, engine);
+		}
+		return engine.layout({
+			centerFile: seeds[0],
+			nodes,
+			connections,
+			layers: this.organizeNodesIntoLayers(seeds[0], nodes, connections),
+			originX: this.settings.canvasWidth / 2,
+			originY: this.settings.canvasHeight / 2
+		});
+	}
+
+	// The notes, links and layout a canvas for the note would get, without writing anything
+	async buildCanvasPreview(file: TFile, options: GenerationOptions): Promise<CanvasPreview> {
+		const { nodes, connections, truncated } = await this.getAllNodesAndConnections([file], options);
+		const positions = this.layoutNodes([file], nodes, connections, getLayoutEngine(options.layout));
+		return { centerPath: file.path, nodes, connections, positions, truncated };
+	}
+
+	// Lay out the notes around each seed as if it were the only center, then place the clusters in rows
+	layoutSeedClusters(seeds: TFile[], nodes: LinkGraphNode[], connections: Map<string, Set<string>>, engine: LayoutEngine): Map<string, {x: number, y: number}> {
+		// Every note belongs to the seed it is closest to
+		const neighbours = getNeighbourMap(connections);
+		const owners = new Map<string, string>();
+		let frontier = seeds.map(seed => seed.path);
+		frontier.forEach(path => owners.set(path, path));
+		while (frontier.length > 0) {
+			const next: string[] = [];
+			frontier.forEach(path => (neighbours.get(path) ?? new Set<string>()).forEach(neighbour => {
+				if (owners.has(neighbour)) return;
+				owners.set(neighbour, owners.get(path) ?? path);
+				next.push(neighbour);
+			}));
+			frontier = next;
+		}
+
+		const clusters = seeds.map(seed => {
+			const members = nodes.filter(node => (owners.get(node.file.path) ?? seeds[0].path) === seed.path);
+			const memberPaths = new Set(members.map(node => node.file.path));
+			const clusterConnections = new Map<string, Set<string>>();
+			connections.forEach((targets, from) => {
+				if (memberPaths.has(from)) {
+					clusterConnections.set(from, new Set(Array.from(targets).filter(target => memberPaths.has(target))));
+				}
+			});
+
+			const clusterPositions = engine.layout({
+				centerFile: seed,
+				nodes: members,
+				connections: clusterConnections,
+				layers: this.organizeNodesIntoLayers(seed, members, clusterConnections),
+				originX: 0,
+				originY: 0
+			});
+			return {positions: clusterPositions, ...getPositionBounds(clusterPositions)};
+		});
+
+		const positions = new Map<string, {x: number, y: number}>();
+		const offsets = packBlocks(clusters, this.settings.canvasWidth / 2, this.settings.canvasHeight / 2);
+		clusters.forEach((cluster, i) => {
+			cluster.positions.forEach((position, path) => {
+				if (!positions.has(path)) {
+					positions.set(path, {x: offsets[i].x + position.x - cluster.minX, y: offsets[i].y + position.y - cluster.minY});
+				}
+			});
+		});
+		return positions;
+	}
+
+	// The notes a seed source stands for, in a stable order
+	resolveSeeds(source: SeedSource): TFile[] {
+		let seeds: TFile[];
+		if (source.kind === 'files') {
+			seeds = source.paths
+				.map(path => this.app.vault.getAbstractFileByPath(path))
+				.filter((file): file is TFile => file instanceof TFile);
+		} else if (source.kind === 'folder') {
+			const prefix = source.path === '/' ? '' : `${source.path}/`;
+			seeds = this.app.vault.getMarkdownFiles().filter(file => file.path.startsWith(prefix));
+		} else {
+			seeds = this.app.vault.getMarkdownFiles().filter(file => {
+				const cache = this.app.metadataCache.getFileCache(file);
+				const tags = cache ? (getAllTags(cache) ?? []) : [];
+				return source.kind === 'tag'
+					? tags.some(tag => tagMatchesRule(tag, source.tag))
+					: noteMatchesQuery(file, tags, source.query);
+			});
+		}
+		if (source.kind !== 'files') {
+			seeds.sort((a, b) => a.path.localeCompare(b.path));
+		}
+		return seeds.slice(0, MAX_SEEDS);
+	}
+
+	getSeedSourceLabel(source: SeedSource, seeds: TFile[]): string {
+		if (source.kind === 'folder') return source.path === '/' ? 'Vault' : source.path.split('/').pop() ?? source.path;
+		if (source.kind === 'tag') return `tag ${source.tag.replace(/^#/, '').replace(/\//g, '-')}`;
+		if (source.kind === 'query') return `query ${source.query.replace(/[\\/:*?"<>|#^[\]]/g, ' ').replace(/\s+/g, ' ').trim()}`;
+		return seeds.length > 1 ? `${seeds[0].basename} and ${seeds.length - 1} more` : seeds[0].basename;
+	}
+
+	async generateSeedCanvas(source: SeedSource, options: GenerationOptions = this.getGenerationOptions()) {
+		try {
+			const seeds = this.resolveSeeds(source);
+			if (seeds.length === 0) {
+				new Notice('No notes to start the canvas from.');
+				return;
+			}
+			if (seeds.length === MAX_SEEDS) {
+				new Notice(`Only the first ${MAX_SEEDS} notes are used as seeds.`);
+			}
+
+			const label = this.getSeedSourceLabel(source, seeds);
+			const canvasFileName = options.canvasNameTemplate.replace(/{{\s*basename\s*}}/g, label).trim() || `${label}_canvas`;
+			const folder = options.outputFolder.trim() || (source.kind === 'folder' && source.path !== '/' ? source.path : seeds[0].parent?.path ?? '');
+			const { path: canvasPath, existing } = await this.findCanvasPath(
+				normalizePath(`${folder}/${canvasFileName}.canvas`),
+				(state) => JSON.stringify(state.seedSource) === JSON.stringify(source)
+			);
+			if (existing) {
+				await this.refreshCanvas(existing, seeds[0], options);
+				if (this.settings.autoOpenCanvas) {
+					await this.app.workspace.openLinkText(canvasPath, '', false);
+				}
+				return;
+			}
+
+			const canvasData = await this.buildCanvasData(seeds, options, source);
+			if (!await this.confirmTruncatedCanvas(canvasData)) return;
+			await this.createCanvasFile(canvasPath, serializeCanvas(canvasData), `Generated canvas for ${label}`);
+		} catch (error) {
+			console.error('Error generating multi-seed canvas:', error);
+			new Notice('Error generating canvas');
+		}
+	}
+
+	getAllTags(): string[] {
+		const tags = new Set<string>();
+		this.app.vault.getMarkdownFiles().forEach(file => {
+			const cache = this.app.metadataCache.getFileCache(file);
+			(cache ? getAllTags(cache) ?? [] : []).forEach(tag => tags.add(tag));
+		});
+		return Array.from(tags).sort();
+	}
+
+	// Export the graph of the active canvas, or the graph a canvas for the active note would show
+	async exportGraphForActiveView(format: ExportFormat) {
+		const activeLeaf = this.app.workspace.activeLeaf;
+		const activeFile = activeLeaf ? (activeLeaf.view as CanvasViewLike).file : null;
+		if (!(activeFile instanceof TFile) || (activeFile.extension !== 'canvas' && activeFile.extension !== 'md')) {
+			new Notice('Please open a canvas or a note to export its graph.');
+			return;
+		}
+
+		try {
+			const canvasData = activeFile.extension === 'canvas'
+				? await this.readCanvasData(activeFile)
+				: await this.buildCanvasData(activeFile);
+			if (!canvasData) return;
+
+			const graph = this.getExportGraph(canvasData);
+			const content = format.serialize(graph, activeFile.basename);
+			const folder = this.settings.outputFolder.trim() || (activeFile.parent?.path ?? '');
+			const basePath = normalizePath(`${folder}/${activeFile.basename} graph`);
+			let exportPath = `${basePath}.${format.extension}`;
+			for (let attempt = 2; this.app.vault.getAbstractFileByPath(exportPath); attempt++) {
+				exportPath = `${basePath} ${attempt}.${format.extension}`;
+			}
+
+			const folderPath = exportPath.split('/').slice(0, -1).join('/');
+			if (folderPath && !this.app.vault.getAbstractFileByPath(folderPath)) {
+				await this.app.vault.createFolder(folderPath);
+			}
+			await this.app.vault.create(exportPath, content);
+			if (format.extension === 'md' && this.settings.autoOpenCanvas) {
+				await this.app.workspace.openLinkText(exportPath, '', false);
+			}
+			new Notice(`Exported ${graph.nodes.length} nodes and ${graph.edges.length} edges to ${exportPath.split('/').pop()}`);
+		} catch (error) {
+			console.error('Error exporting graph:', error);
+			new Notice('Error exporting graph');
+		}
+	}
+
+	// Nodes and edges of canvas data with their labels, colors and link direction
+	getExportGraph(canvasData: CanvasData): ExportGraph {
+		const graph: ExportGraph = { nodes: [], edges: [] };
+		const exportIds = new Map<string, string>();
+		const groups = new Map<string, CanvasGroupNode>();
+		for (const node of canvasData.nodes) {
+			let id = node.id;
+			let label: string;
+			let path: string | undefined;
+			if (isFileNode(node)) {
+				id = node.file + (node.subpath ?? '');
+				path = node.file;
+				label = (node.file.split('/').pop() ?? node.file).replace(/\.md$/, '') + (node.subpath ?? '');
+			} else if (isTextNode(node)) {
+				label = (node.text ?? '').split('\n').map((line: string) => line.replace(/[*_#>`]/g, '').trim()).find((line: string) => line.length > 0) ?? '';
+			} else if (isLinkNode(node)) {
+				label = node.url ?? '';
+			} else if (isGroupNode(node)) {
+				// Groups are only drawn when edges connect them
+				groups.set(node.id, node);
+				continue;
+			} else {
+				continue;
+			}
+			exportIds.set(node.id, id);
+			graph.nodes.push({ id, label, path, color: node.color });
+		}
+
+		for (const edge of canvasData.edges) {
+			for (const nodeId of [edge.fromNode, edge.toNode]) {
+				const group = groups.get(nodeId);
+				if (group && !exportIds.has(nodeId)) {
+					exportIds.set(nodeId, nodeId);
+					graph.nodes.push({ id: nodeId, label: group.label ?? '', color: group.color });
+				}
+			}
+			const from = exportIds.get(edge.fromNode);
+			const to = exportIds.get(edge.toNode);
+			if (!from || !to) continue;
+
+			// Canvas edges point at their end unless only the start has an arrow
+			const toArrow = (edge.toEnd ?? 'arrow') === 'arrow';
+			const fromArrow = edge.fromEnd === 'arrow';
+			graph.edges.push({
+				from: fromArrow && !toArrow ? to : from,
+				to: fromArrow && !toArrow ? from : to,
+				label: edge.label,
+				color: edge.color,
+				directed: toArrow !== fromArrow
+			});
+		}
+		return graph;
+	}
+
+	async syncEdgesToNotes() {
+		const canvasFile = this.getActiveCanvasFile();
+		if (!canvasFile) {
+			new Notice('Please open a canvas to sync its edges.');
+			return;
+		}
+		const canvasData = await this.readCanvasData(canvasFile);
+		if (!canvasData) return;
+
+		const { additions, removals } = this.getEdgeLinkChanges(canvasData);
+		if (additions.length === 0 && removals.length === 0) {
+			new Notice('Every edge on this canvas is already a link.');
+			return;
+		}
+		new EdgeSyncModal(this.app, this.settings.relatedHeading, additions, removals, (selected) => {
+			this.appendLinksToNotes(selected);
+		}).open();
+	}
+
+	// Edges between notes that aren't links yet, and, on generated canvases, links whose edges were deleted
+	getEdgeLinkChanges(canvasData: CanvasData): { additions: EdgeLink[], removals: EdgeLink[] } {
+		const nodesById = new Map<string, CanvasNode>(canvasData.nodes.map((node: CanvasNode) => [node.id, node] as [string, CanvasNode]));
+		const getFile = (node: CanvasNode | undefined) => {
+			const file = node && isFileNode(node) ? this.app.vault.getAbstractFileByPath(node.file) : null;
+			return file instanceof TFile ? file : null;
+		};
+		const resolvedLinks = this.app.metadataCache.resolvedLinks;
+
+		const additions: EdgeLink[] = [];
+		const seen = new Set<string>();
+		const connected = new Set<string>();
+		for (const edge of canvasData.edges) {
+			// Edges point at their end unless only the start has an arrow
+			const reversed = edge.fromEnd === 'arrow' && edge.toEnd === 'none';
+			const fromNode = nodesById.get(reversed ? edge.toNode : edge.fromNode);
+			const toNode = nodesById.get(reversed ? edge.fromNode : edge.toNode);
+			const source = getFile(fromNode);
+			const target = getFile(toNode);
+			if (!source || !target || source === target || !toNode || !isFileNode(toNode)) continue;
+			connected.add(`${source.path}\n${target.path}`);
+			connected.add(`${target.path}\n${source.path}`);
+
+			const subpath = toNode.subpath ?? '';
+			const key = `${source.path}\n${target.path}${subpath}`;
+			if (source.extension !== 'md' || resolvedLinks[source.path]?.[target.path] || seen.has(key)) continue;
+			seen.add(key);
+			additions.push({ source, target, subpath });
+		}
+
+		// Only edges this plugin drew count, a link that was never shown wasn't deleted
+		const removals: EdgeLink[] = [];
+		if (this.settings.reportDeletedEdges) {
+			const generatedEdges = canvasData.meta?.canvasAutoGen?.generatedEdges ?? {};
+			const edgeIds = new Set(canvasData.edges.map((edge: CanvasEdge) => edge.id));
+			const reported = new Set<string>();
+			Object.keys(generatedEdges).forEach(id => {
+				if (edgeIds.has(id)) return;
+				const [fromId, toId] = generatedEdges[id].split(',');
+				const source = getFile(nodesById.get(fromId));
+				const target = getFile(nodesById.get(toId));
+				if (!source || !target || source === target || !resolvedLinks[source.path]?.[target.path]) return;
+				const key = `${source.path}\n${target.path}`;
+				if (connected.has(key) || reported.has(key)) return;
+				reported.add(key);
+				removals.push({ source, target, subpath: '' });
+			});
+		}
+		return { additions, removals };
+	}
+
+	async appendLinksToNotes(links: EdgeLink[]) {
+		const bySource = new Map<TFile, string[]>();
+		links.forEach(link => {
+			const linktext = this.app.metadataCache.fileToLinktext(link.target, link.source.path, true) + link.subpath;
+			if (!bySource.has(link.source)) bySource.set(link.source, []);
+			bySource.get(link.source)?.push(`[[${linktext}]]`);
+		});
+
+		let written = 0;
+		for (const [source, items] of Array.from(bySource.entries())) {
+			try {
+				await this.app.vault.process(source, (content) => appendLinksUnderHeading(content, this.settings.relatedHeading, items));
+				written += items.length;
+			} catch (error) {
+				console.error(`Error adding links to ${source.path}:`, error);
+				new Notice(`Error adding links to ${source.basename}`);
+			}
+		}
+		new Notice(`Added ${written} ${written === 1 ? 'link' : 'links'} to ${bySource.size} ${bySource.size === 1 ? 'note' : 'notes'}`);
+	}
+
+	async generateVaultOverview(budget: number = this.settings.overviewNodeBudget, filters: TraversalFilters = this.settings.filters) {
+		try {
+			const canvasData = this.buildOverviewCanvasData(budget, filters);
+			if (canvasData.nodes.length === 0) {
+				new Notice('No notes to map.');
+				return;
+			}
+
+			const { path: canvasPath, existing } = await this.findCanvasPath(
+				normalizePath(`${this.settings.outputFolder.trim()}/Vault overview.canvas`),
+				(state) => state.overview === true,
+				false
+			);
+			if (!existing) {
+				await this.createCanvasFile(canvasPath, serializeCanvas(canvasData), 'Generated vault overview');
+				return;
+			}
+
+			// Clusters shift as the vault changes, so the overview is replaced rather than merged
+			await this.mutateCanvas(existing, 'Regenerated vault overview', (current) => {
+				current.nodes = canvasData.nodes;
+				current.edges = canvasData.edges;
+				current.meta = { ...canvasData.meta, created: current.meta?.created ?? canvasData.meta.created };
+				return true;
+			});
+			if (this.settings.autoOpenCanvas) {
+				await this.app.workspace.openLinkText(canvasPath, '', false);
+			}
+			new Notice(`Canvas regenerated: ${canvasPath.split('/').pop()}`);
+		} catch (error) {
+			console.error('Error generating vault overview:', error);
+			new Notice('Error generating vault overview');
+		}
+	}
+
+	// Every note in its cluster's group, with the weakest connected notes of a cluster summarised
+	// once the vault has more notes than the budget allows
+	buildOverviewCanvasData(budget: number, filters: TraversalFilters): CanvasData {
+		const notes = this.app.vault.getMarkdownFiles().filter(file => this.noteMatchesFilters(file, filters));
+		const included = new Set(notes.map(file => file.path));
+		const filesByPath = new Map(notes.map(file => [file.path, file] as [string, TFile]));
+
+		// Undirected link weights and the directed links that become edges
+		const weights = new Map<string, Map<string, number>>();
+		const connections = new Map<string, Set<string>>();
+		notes.forEach(file => {
+			weights.set(file.path, new Map<string, number>());
+			connections.set(file.path, new Set<string>());
+		});
+		const resolvedLinks = this.app.metadataCache.resolvedLinks;
+		Object.keys(resolvedLinks).forEach(source => {
+			if (!included.has(source)) return;
+			Object.keys(resolvedLinks[source]).forEach(target => {
+				if (!included.has(target) || target === source) return;
+				const count = resolvedLinks[source][target];
+				connections.get(source)?.add(target);
+				weights.get(source)?.set(target, (weights.get(source)?.get(target) ?? 0) + count);
+				weights.get(target)?.set(source, (weights.get(target)?.get(source) ?? 0) + count);
+			});
+		});
+		const degree = (path: string) => weights.get(path)?.size ?? 0;
+
+		// Notes without links share one cluster instead of one each
+		const labels = detectClusters(weights);
+		const clusterMembers = new Map<string, string[]>();
+		notes.forEach(file => {
+			const label = degree(file.path) === 0 ? '' : labels.get(file.path) ?? file.path;
+			if (!clusterMembers.has(label)) clusterMembers.set(label, []);
+			clusterMembers.get(label)?.push(file.path);
+		});
+		let clusters = Array.from(clusterMembers.entries())
+			.map(([key, paths]) => ({
+				key,
+				paths: paths.sort((a, b) => degree(b) - degree(a) || a.localeCompare(b)),
+				label: '',
+				kept: [] as string[],
+				summarised: [] as string[]
+			}))
+			.sort((a, b) => Number(a.key === '') - Number(b.key === '') || b.paths.length - a.paths.length || a.key.localeCompare(b.key));
+
+		// Every cluster takes a group, a summary and at least one note, the smallest ones share a cluster when that doesn't fit
+		const maxClusters = Math.max(1, Math.floor(budget / 3));
+		if (clusters.length > maxClusters) {
+			const folded = clusters.slice(maxClusters - 1);
+			clusters = clusters.slice(0, maxClusters - 1);
+			clusters.push({
+				key: '',
+				paths: folded.reduce((paths: string[], cluster) => paths.concat(cluster.paths), [])
+					.sort((a, b) => degree(b) - degree(a) || a.localeCompare(b)),
+				label: folded.some(cluster => cluster.key !== '') ? 'Other notes' : '',
+				kept: [],
+				summarised: []
+			});
+		}
+
+		// Share what the groups and summaries leave of the budget between clusters by size, keeping the best connected notes of each
+		const fits = notes.length + clusters.length <= budget;
+		const noteBudget = fits ? notes.length : Math.max(0, budget - 2 * clusters.length);
+		let remaining = noteBudget;
+		clusters.forEach(cluster => {
+			const share = fits ? cluster.paths.length : Math.max(1, Math.round(noteBudget * cluster.paths.length / notes.length));
+			const quota = Math.min(cluster.paths.length, share, remaining);
+			cluster.kept = cluster.paths.slice(0, quota);
+			cluster.summarised = cluster.paths.slice(quota);
+			remaining -= quota;
+		});
+
+		// Name each cluster after the tag most of its notes share, or else its best connected note
+		const usedLabels = new Set<string>();
+		clusters.forEach(cluster => {
+			let label = cluster.key === '' ? cluster.label || 'Unlinked notes' : filesByPath.get(cluster.paths[0])?.basename ?? cluster.key;
+			if (cluster.key !== '') {
+				const tagCounts = new Map<string, number>();
+				cluster.paths.forEach(path => {
+					const file = filesByPath.get(path);
+					const cache = file ? this.app.metadataCache.getFileCache(file) : null;
+					new Set(cache ? getAllTags(cache) ?? [] : []).forEach(tag => tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1));
+				});
+				const [topTag, topCount] = Array.from(tagCounts.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0] ?? ['', 0];
+				if (topCount >= 2 && topCount * 2 >= cluster.paths.length) label = topTag;
+			}
+			let unique = label;
+			for (let i = 2; usedLabels.has(unique); i++) unique = `${label} ${i}`;
+			usedLabels.add(unique);
+			cluster.label = unique;
+		});
+
+		// Lay out each cluster around its best connected note, with the summary below it.
+		// Unlinked notes have nothing to pull them together and go in a grid.
+		const blocks = clusters.map(cluster => {
+			const members = cluster.kept.map(path => ({file: filesByPath.get(path) as TFile, level: 0, isBacklink: false}));
+			const memberSet = new Set(cluster.kept);
+			const clusterConnections = new Map<string, Set<string>>();
+			cluster.kept.forEach(path => clusterConnections.set(path, new Set(Array.from(connections.get(path) ?? []).filter(target => memberSet.has(target)))));
+			const positions = new Map<string, {x: number, y: number}>();
+			if (members.length > 0) {
+				getLayoutEngine(cluster.key === '' ? 'grid' : 'force')
+					.layout({centerFile: members[0].file, nodes: members, connections: clusterConnections, layers: [members], originX: 0, originY: 0})
+					.forEach((position, path) => positions.set(path, {x: Math.round(position.x), y: Math.round(position.y)}));
+			}
+			const bounds = getPositionBounds(positions);
+			const summaryHeight = cluster.summarised.length > 0 ? SUMMARY_HEIGHT + (members.length > 0 ? GROUP_GAP : 0) : 0;
+			return {
+				positions,
+				bounds,
+				width: Math.max(bounds.width, summaryHeight > 0 ? SUMMARY_WIDTH : 0) + 2 * GROUP_PADDING,
+				height: bounds.height + summaryHeight + 2 * GROUP_PADDING
+			};
+		});
+		const offsets = packBlocks(blocks, this.settings.canvasWidth / 2, this.settings.canvasHeight / 2);
+
+		const groupNodes: CanvasNode[] = [];
+		const nodes: CanvasNode[] = [];
+		const edges: CanvasEdge[] = [];
+		const nodeById = new Map<string, CanvasNode>();
+		const clusterOf = new Map<string, number>();
+		clusters.forEach((cluster, i) => cluster.paths.forEach(path => clusterOf.set(path, i)));
+		clusters.forEach((cluster, i) => {
+			const block = blocks[i];
+			const originX = offsets[i].x + GROUP_PADDING;
+			const originY = offsets[i].y + GROUP_PADDING;
+			groupNodes.push({
+				id: this.getGroupId(cluster.label),
+				type: "group",
+				label: cluster.label,
+				x: offsets[i].x,
+				y: offsets[i].y,
+				width: block.width,
+				height: block.height
+			});
+
+			cluster.kept.forEach(path => {
+				const position = block.positions.get(path) ?? {x: block.bounds.minX, y: block.bounds.minY};
+				const node: CanvasFileNode = {
+					id: this.getNodeId(path),
+					type: "file",
+					file: path,
+					x: originX + position.x - block.bounds.minX,
+					y: originY + position.y - block.bounds.minY,
+					width: NODE_WIDTH,
+					height: NODE_HEIGHT
+				};
+				const file = filesByPath.get(path);
+				if (file) this.applyColorRules(node, file);
+				nodes.push(node);
+				nodeById.set(path, node);
+			});
+
+			if (cluster.summarised.length > 0) {
+				const names = cluster.summarised.slice(0, SUMMARY_NAMES).map(path => `- [[${filesByPath.get(path)?.basename ?? path}]]`);
+				if (cluster.summarised.length > SUMMARY_NAMES) {
+					names.push(`- and ${cluster.summarised.length - SUMMARY_NAMES} more`);
+				}
+				nodes.push({
+					id: `summary-${hashString(cluster.label)}`,
+					type: "text",
+					text: `**${cluster.summarised.length} more ${cluster.summarised.length === 1 ? 'note' : 'notes'}**\n\n${names.join('\n')}`,
+					x: originX,
+					y: originY + block.bounds.height + (cluster.kept.length > 0 ? GROUP_GAP : 0),
+					width: SUMMARY_WIDTH,
+					height: SUMMARY_HEIGHT
+				});
+			}
+		});
+
+		// Every link inside a cluster, and one edge for the strongest links between clusters
+		const clusterLinks = new Map<string, number>();
+		notes.forEach(file => {
+			const sourceCluster = clusterOf.get(file.path) ?? -1;
+			connections.get(file.path)?.forEach(target => {
+				const targetCluster = clusterOf.get(target) ?? -1;
+				if (sourceCluster !== targetCluster) {
+					const key = [sourceCluster, targetCluster].sort((a, b) => a - b).join(',');
+					clusterLinks.set(key, (clusterLinks.get(key) ?? 0) + 1);
+					return;
+				}
+				const fromNode = nodeById.get(file.path);
+				const toNode = nodeById.get(target);
+				if (!fromNode || !toNode) return;
+				edges.push({
+					id: this.getEdgeId(fromNode.id, toNode.id),
+					fromNode: fromNode.id,
+					toNode: toNode.id,
+					...getEdgeSides(fromNode, toNode)
+				});
+			});
+		});
+		const strongest = new Set<string>();
+		clusters.forEach((cluster, i) => {
+			Array.from(clusterLinks.entries())
+				.filter(([key]) => key.split(',').indexOf(String(i)) !== -1)
+				.sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+				.slice(0, CLUSTER_LINKS)
+				.forEach(([key]) => strongest.add(key));
+		});
+		strongest.forEach(key => {
+			const [a, b] = key.split(',').map(Number);
+			const fromGroup = groupNodes[a];
+			const toGroup = groupNodes[b];
+			const count = clusterLinks.get(key) ?? 0;
+			edges.push({
+				id: this.getEdgeId(fromGroup.id, toGroup.id),
+				fromNode: fromGroup.id,
+				toNode: toGroup.id,
+				...getEdgeSides(fromGroup, toGroup),
+				toEnd: 'none',
+				label: count === 1 ? '1 link' : `${count} links`
+			});
+		});
+
+		const canvasData: CanvasData = {
+			nodes: [...groupNodes, ...nodes],
+			edges,
+			meta: {
+				created: new Date().toISOString(),
+				modified: new Date().toISOString(),
+				canvasAutoGen: {
+					overview: true,
+					version: this.manifest.version,
+					options: {
+						budget,
+						filters
+					}
+				}
+			}
+		};
+		canvasData.nodes.forEach((node: CanvasNode) => this.recordGeneratedNode(canvasData, node));
+		canvasData.edges.forEach((edge: CanvasEdge) => this.recordGeneratedEdge(canvasData, edge));
+		return canvasData;
+	}
+
+	// Neighbours of a note for path searches: forward links and backlinks that pass the filters
+	getPathNeighbours(filters: TraversalFilters): (path: string) => string[] {
+		const cache = new Map<string, string[]>();
+		return (path: string) => {
+			const cached = cache.get(path);
+			if (cached) return cached;
+			const file = this.app.vault.getAbstractFileByPath(path);
+			// Paths don't run through attachments or canvases
+			const linked = file instanceof TFile && file.extension === 'md'
+				? [...this.getFilteredLinks(file, 'right', filters), ...this.getFilteredLinks(file, 'left', filters)].map(linkedFile => linkedFile.path)
+				: [];
+			const neighbours = Array.from(new Set(linked)).sort();
+			cache.set(path, neighbours);
+			return neighbours;
+		};
+	}
+
+	async generatePathCanvas(from: TFile, to: TFile, options: GenerationOptions = this.getGenerationOptions()) {
+		try {
+			const canvasData = await this.buildPathCanvasData(from, to, options);
+			if (!canvasData) {
+				new Notice(`No path of up to ${options.maxPathLength} links between ${from.basename} and ${to.basename}.`);
+				return;
+			}
+
+			const folder = options.outputFolder.trim() || (from.parent?.path ?? '');
+			const { path: canvasPath, existing } = await this.findCanvasPath(
+				normalizePath(`${folder}/${from.basename} to ${to.basename}.canvas`),
+				(state) => state.source === from.path && state.target === to.path
+			);
+			if (existing) {
+				await this.refreshCanvas(existing, from, options);
+				if (this.settings.autoOpenCanvas) {
+					await this.app.workspace.openLinkText(canvasPath, '', false);
+				}
+				return;
+			}
+			await this.createCanvasFile(canvasPath, serializeCanvas(canvasData), `Generated paths from ${from.basename} to ${to.basename}`);
+		} catch (error) {
+			console.error('Error generating path canvas:', error);
+			new Notice('Error generating path canvas');
+		}
+	}
+
+	// Canvas of the shortest paths between two notes, laid out left to right from the first note
+	async buildPathCanvasData(from: TFile, to: TFile, options: GenerationOptions): Promise<CanvasData | null> {
+		const neighbours = this.getPathNeighbours(options.filters);
+		const paths = options.pathCount > 0
+			? findKShortestPaths(from.path, to.path, neighbours, options.maxPathLength, options.pathCount)
+			: findAllShortestPaths(from.path, to.path, neighbours, options.maxPathLength, MAX_SHORTEST_PATHS);
+		if (paths.length === 0) return null;
+
+		// Every step along a path moves at least one column to the right. Paths that cross each other
+		// in opposite orders would push columns forever, so relaxing stops after one pass per note.
+		const columns = new Map<string, number>();
+		paths.forEach(path => path.forEach((notePath, i) => {
+			columns.set(notePath, Math.min(columns.get(notePath) ?? i, i));
+		}));
+		for (let pass = 0; pass < columns.size; pass++) {
+			let moved = false;
+			paths.forEach(path => {
+				for (let i = 0; i + 1 < path.length; i++) {
+					const next = (columns.get(path[i]) ?? 0) + 1;
+					if ((columns.get(path[i + 1]) ?? 0) < next) {
+						columns.set(path[i + 1], next);
+						moved = true;
+					}
+				}
+			});
+			if (!moved) break;
+		}
+		columns.set(from.path, 0);
+		const lastColumn = Math.max(...Array.from(columns.values()));
+
+		// Steps between consecutive notes, drawn in the direction the link actually goes
+		const connections = new Map<string, Set<string>>();
+		const forwardLinks = new Map<string, Set<string>>();
+		const linksForward = (fromPath: string, toPath: string): boolean => {
+			if (!forwardLinks.has(fromPath)) {
+				const file = this.app.vault.getAbstractFileByPath(fromPath);
+				forwardLinks.set(fromPath, new Set(file instanceof TFile
+					? this.getFilteredLinks(file, 'right', options.filters).map(linkedFile => linkedFile.path)
+					: []));
+			}
+			return forwardLinks.get(fromPath)?.has(toPath) ?? false;
+		};
+		paths.forEach(path => {
+			for (let i = 0; i + 1 < path.length; i++) {
+				const [source, target] = linksForward(path[i], path[i + 1]) ? [path[i], path[i + 1]] : [path[i + 1], path[i]];
+				if (!connections.has(source)) connections.set(source, new Set<string>());
+				connections.get(source)?.add(target);
+			}
+		});
+
+		const layers: LinkGraphNode[][] = [];
+		for (let column = 0; column <= lastColumn; column++) layers.push([]);
+		const nodes: LinkGraphNode[] = [];
+		columns.forEach((column, notePath) => {
+			const file = this.app.vault.getAbstractFileByPath(notePath);
+			if (!(file instanceof TFile)) return;
+			const node = {file, level: column, isBacklink: false};
+			nodes.push(node);
+			layers[column].push(node);
+		});
+		const nonEmptyLayers = layers.filter(layer => layer.length > 0);
+		const orderedLayers = this.settings.layerOrdering !== 'alphabetical'
+			? minimizeLayerCrossings(nonEmptyLayers, connections, from.path, this.settings.layerOrdering)
+			: nonEmptyLayers;
+		const positions = layeredLayout({
+			centerFile: from,
+			nodes,
+			connections,
+			layers: orderedLayers,
+			originX: this.settings.canvasWidth / 2,
+			originY: this.settings.canvasHeight / 2
+		});
+
+		const canvasNodes: CanvasFileNode[] = [];
+		nodes.forEach(nodeInfo => {
+			const position = positions.get(nodeInfo.file.path);
+			if (!position) return;
+			const node: CanvasFileNode = {
+				id: this.getNodeId(nodeInfo.file.path),
+				type: "file",
+				file: nodeInfo.file.path,
+				x: Math.round(position.x),
+				y: Math.round(position.y),
+				width: NODE_WIDTH,
+				height: NODE_HEIGHT
+			};
+			this.applyColorRules(node, nodeInfo.file, options.styling);
+			canvasNodes.push(node);
+		});
+		const nodesByPath = new Map(canvasNodes.map(node => [node.file, node]));
+
+		const edges: CanvasEdge[] = [];
+		connections.forEach((targets, source) => targets.forEach(target => {
+			const fromNode = nodesByPath.get(source);
+			const toNode = nodesByPath.get(target);
+			if (!fromNode || !toNode) return;
+			const sides = getEdgeSides(fromNode, toNode);
+			edges.push({
+				id: this.getEdgeId(fromNode.id, toNode.id),
+				fromNode: fromNode.id,
+				fromSide: sides.fromSide,
+				toNode: toNode.id,
+				toSide: sides.toSide
+			});
+		}));
+
+		const canvasData: CanvasData = {
+			nodes: canvasNodes,
+			edges,
+			meta: {
+				created: new Date().toISOString(),
+				modified: new Date().toISOString(),
+				canvasAutoGen: {
+					source: from.path,
+					target: to.path,
+					version: this.manifest.version,
+					options: {
+						...this.getOptionsState(options),
+						maxPathLength: options.maxPathLength,
+						pathCount: options.pathCount
+					}
+				}
+			}
+		};
+		canvasData.nodes.forEach(node => this.recordGeneratedNode(canvasData, node));
+		await this.decorateEdges(canvasData, canvasData.edges, options.styling);
+		canvasData.edges.forEach(edge => this.recordGeneratedEdge(canvasData, edge));
+		return canvasData;
+	}
+
+	getColorRules(styling: CanvasStyling = this.settings): ColorRule[] {
+		return styling.colorRules
+			.map(parseColorRule)
+			.filter((rule): rule is ColorRule => rule !== null);
+	}
+
+	// The first matching rule decides the color of a file node
+	applyColorRules(node: CanvasNode, file: TFile, styling: CanvasStyling = this.settings) {
+		const rules = this.getColorRules(styling);
+		if (rules.length === 0) return;
+
+		const cache = file.extension === 'md' ? this.app.metadataCache.getFileCache(file) : null;
+		const firstTag = cache ? (getAllTags(cache) ?? [])[0] : undefined;
+		const rule = rules.find(candidate => {
+			if (candidate.source === 'folder') return pathMatchesFolderRule(file.path, candidate.key);
+			if (candidate.source === 'tag') return firstTag !== undefined && tagMatchesRule(firstTag, candidate.key);
+			return frontmatterMatchesCondition(cache?.frontmatter, `${candidate.key} = ${candidate.value}`);
+		});
+		if (rule) node.color = rule.color;
+	}
+
+	// Label of the group a file belongs to, or null when it isn't grouped
+	getGroupLabel(file: TFile, styling: CanvasStyling = this.settings): string | null {
+		if (styling.groupBy === 'folder') {
+			return file.parent && !file.parent.isRoot() ? file.parent.path : 'Vault root';
+		}
+		if (styling.groupBy === 'property' && styling.groupProperty) {
+			const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+			const value = frontmatter?.[styling.groupProperty];
+			const first = Array.isArray(value) ? value[0] : value;
+			if (first === undefined || first === null || first === '') return null;
+			return `${styling.groupProperty}: ${first}`;
+		}
+		return null;
+	}
+
+	// Arrange the members of each group in a compact block around their average position,
+	// then push blocks and ungrouped nodes apart so no group covers a node that isn't in it
+	packGroups(positions: Map<string, {x: number, y: number}>, nodes: LinkGraphNode[], centerFile: TFile, styling: CanvasStyling = this.settings) {
+		const members = new Map<string, string[]>();
+		const ungrouped: string[] = [];
+		nodes.forEach(node => {
+			if (!positions.has(node.file.path)) return;
+			const label = node.file.path === centerFile.path ? null : this.getGroupLabel(node.file, styling);
+			if (label === null) {
+				ungrouped.push(node.file.path);
+				return;
+			}
+			if (!members.has(label)) members.set(label, []);
+			members.get(label)?.push(node.file.path);
+		});
+		if (members.size === 0) return;
+
+		const items: Array<{x: number, y: number, width: number, height: number, pinned: boolean, paths: string[], columns: number}> = [];
+		members.forEach(paths => {
+			// Keep roughly the order the layout gave the members
+			paths.sort((a, b) => {
+				const pa = positions.get(a);
+				const pb = positions.get(b);
+				return pa && pb ? (pa.y - pb.y || pa.x - pb.x) : 0;
+			});
+			const columns = Math.ceil(Math.sqrt(paths.length));
+			const rows = Math.ceil(paths.length / columns);
+			const width = columns * NODE_WIDTH + (columns - 1) * GROUP_GAP + 2 * GROUP_PADDING;
+			const height = rows * NODE_HEIGHT + (rows - 1) * GROUP_GAP + 2 * GROUP_PADDING;
+			let sumX = 0;
+			let sumY = 0;
+			paths.forEach(path => {
+				sumX += positions.get(path)?.x ?? 0;
+				sumY += positions.get(path)?.y ?? 0;
+			});
+			const centerX = sumX / paths.length + NODE_WIDTH / 2;
+			const centerY = sumY / paths.length + NODE_HEIGHT / 2;
+			items.push({x: centerX - width / 2, y: centerY - height / 2, width, height, pinned: false, paths, columns});
+		});
+		ungrouped.forEach(path => {
+			const position = positions.get(path);
+			if (!position) return;
+			items.push({x: position.x, y: position.y, width: NODE_WIDTH, height: NODE_HEIGHT, pinned: path === centerFile.path, paths: [path], columns: 1});
+		});
+
+		const center = positions.get(centerFile.path);
+		separateRectangles(items, (center?.x ?? 0) + NODE_WIDTH / 2, (center?.y ?? 0) + NODE_HEIGHT / 2);
+
+		items.forEach(item => {
+			if (item.paths.length === 1 && item.width === NODE_WIDTH) {
+				positions.set(item.paths[0], {x: item.x, y: item.y});
+				return;
+			}
+			item.paths.forEach((path, i) => {
+				positions.set(path, {
+					x: item.x + GROUP_PADDING + (i % item.columns) * (NODE_WIDTH + GROUP_GAP),
+					y: item.y + GROUP_PADDING + Math.floor(i / item.columns) * (NODE_HEIGHT + GROUP_GAP)
+				});
+			});
+		});
+	}
+
+	// Wrap the nodes of each group in a labeled canvas group node
+	addGroupNodes(canvasData: CanvasData, centerFile: TFile, styling: CanvasStyling = this.settings) {
+		const bounds = new Map<string, {minX: number, minY: number, maxX: number, maxY: number}>();
+		for (const node of canvasData.nodes) {
+			if (!isFileNode(node) || node.file === centerFile.path) continue;
+			const file = this.app.vault.getAbstractFileByPath(node.file);
+			const label = file instanceof TFile ? this.getGroupLabel(file, styling) : null;
+			if (label === null) continue;
+			const current = bounds.get(label) ?? {minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity};
+			bounds.set(label, {
+				minX: Math.min(current.minX, node.x),
+				minY: Math.min(current.minY, node.y),
+				maxX: Math.max(current.maxX, node.x + node.width),
+				maxY: Math.max(current.maxY, node.y + node.height)
+			});
+		}
+
+		// Groups go first so they are drawn behind their nodes
+		const groups: CanvasGroupNode[] = [];
+		bounds.forEach((box, label) => {
+			groups.push({
+				id: this.getGroupId(label),
+				type: "group",
+				label,
+				x: box.minX - GROUP_PADDING,
+				y: box.minY - GROUP_PADDING,
+				width: box.maxX - box.minX + 2 * GROUP_PADDING,
+				height: box.maxY - box.minY + 2 * GROUP_PADDING
+			});
+		});
+		canvasData.nodes = [...groups, ...canvasData.nodes];
+	}
+
+	// Put a newly added node inside its group, creating or growing the group as needed,
+	// and keep nodes without a group out of every group
+	placeNodeInGroup(canvasData: CanvasData, node: CanvasNode, file: TFile, styling: CanvasStyling = this.settings) {
+		if (styling.groupBy === 'none') return;
+
+		const label = this.getGroupLabel(file, styling);
+		const groupId = label !== null ? this.getGroupId(label) : null;
+		const group = groupId ? canvasData.nodes.find((n: CanvasNode) => n.id === groupId) : null;
+		const otherGroups = canvasData.nodes.filter((n: CanvasNode) => isGroupNode(n) && n !== group);
+		const contains = (outer: CanvasNode, inner: CanvasNode) =>
+			inner.x >= outer.x && inner.y >= outer.y && inner.x + inner.width <= outer.x + outer.width && inner.y + inner.height <= outer.y + outer.height;
+
+		if (group) {
+			// Add the node at the bottom of its group and move whatever the grown group now covers
+			node.x = group.x + GROUP_PADDING;
+			node.y = group.y + group.height - GROUP_PADDING + GROUP_GAP;
+			const growth = node.height + GROUP_GAP;
+			const strip = {x: group.x, y: group.y + group.height, width: group.width, height: growth};
+			const moved = new Set<CanvasNode>();
+			for (const other of canvasData.nodes) {
+				if (other === group || other === node || contains(group, other)) continue;
+				if (!this.nodesOverlap(strip, other) || other.y < strip.y - other.height / 2) continue;
+				moved.add(other);
+				// A group moves together with its nodes
+				if (isGroupNode(other)) {
+					canvasData.nodes.filter((inner: CanvasNode) => inner !== node && contains(other, inner)).forEach((inner: CanvasNode) => moved.add(inner));
+				}
+			}
+			moved.forEach(other => other.y += growth);
+			group.height += growth;
+			return;
+		}
+
+		// Ungrouped nodes and new groups must not land on an existing group
+		while (otherGroups.some((other: CanvasNode) => this.nodesOverlap({
+			x: node.x - GROUP_PADDING,
+			y: node.y - GROUP_PADDING,
+			width: node.width + 2 * GROUP_PADDING,
+			height: node.height + 2 * GROUP_PADDING
+		}, other))) {
+			node.y += node.height + GROUP_GAP;
+		}
+
+		if (label !== null && groupId) {
+			const newGroup: CanvasGroupNode = {
+				id: groupId,
+				type: "group",
+				label,
+				x: node.x - GROUP_PADDING,
+				y: node.y - GROUP_PADDING,
+				width: node.width + 2 * GROUP_PADDING,
+				height: node.height + 2 * GROUP_PADDING
+			};
+			canvasData.nodes.unshift(newGroup);
+			this.recordGeneratedNode(canvasData, newGroup);
+		}
+	}
+
+	// Links from one note to another, with the subpath ('' for the whole note) and where they appear
+	getLinkReferences(sourcePath: string, targetPath: string): LinkReference[] {
+		const sourceFile = this.app.vault.getAbstractFileByPath(sourcePath);
+		if (!(sourceFile instanceof TFile)) return [];
+		const cache = this.app.metadataCache.getFileCache(sourceFile);
+		const references: LinkReference[] = [];
+
+		for (const link of [...(cache?.links ?? []), ...(cache?.embeds ?? [])]) {
+			const { path, subpath } = parseLinktext(link.link);
+			// Links like [[#Heading]] point into the source note itself
+			const target = path ? this.app.metadataCache.getFirstLinkpathDest(path, sourcePath) : sourceFile;
+			if (target?.path === targetPath) {
+				// Obsidian gives [[Note#Heading]] a display text too, only [[Note|alias]] and [alias](Note.md) are aliased
+				const aliased = /^!?\[\[[^\]]*\|/.test(link.original) || /^!?\[[^[]/.test(link.original);
+				references.push({
+					subpath,
+					line: link.position.start.line,
+					start: link.position.start.offset,
+					end: link.position.end.offset,
+					alias: aliased && link.displayText ? link.displayText : undefined
+				});
+			}
+		}
+		return references;
+	}
+
+	// Lines covered by a heading section, from the heading up to the next heading of the same or higher level
+	getSectionLineRange(file: TFile, subpath: string): {start: number, end: number} | null {
+		const headings = this.app.metadataCache.getFileCache(file)?.headings ?? [];
+		const index = headings.findIndex(heading => `#${heading.heading}` === subpath);
+		if (index < 0) return null;
+		const next = headings.slice(index + 1).find(heading => heading.level <= headings[index].level);
+		return { start: headings[index].position.start.line, end: next ? next.position.start.line : Number.MAX_SAFE_INTEGER };
+	}
+
+	// Label and color generated edges between file nodes according to the settings
+	async decorateEdges(canvasData: CanvasData, edges: CanvasEdge[], styling: CanvasStyling = this.settings) {
+		if (styling.edgeLabels === 'none' && !styling.edgeWeightColors) return;
+
+		const nodesById = new Map<string, CanvasNode>();
+		canvasData.nodes.forEach((node: CanvasNode) => nodesById.set(node.id, node));
+		const contents = new Map<string, string>();
+
+		for (const edge of edges) {
+			const source = nodesById.get(edge.fromNode);
+			const target = nodesById.get(edge.toNode);
+			if (!source || !target || !isFileNode(source) || !isFileNode(target)) continue;
+			const sourceFile = this.app.vault.getAbstractFileByPath(source.file);
+			if (!(sourceFile instanceof TFile) || sourceFile.extension !== 'md') continue;
+
+			// Only count links that point at the target section and sit in the source section
+			const sourceRange = source.subpath ? this.getSectionLineRange(sourceFile, source.subpath) : null;
+			const references = this.getLinkReferences(source.file, target.file).filter(ref =>
+				(!target.subpath || ref.subpath === target.subpath) &&
+				(!sourceRange || (ref.line >= sourceRange.start && ref.line < sourceRange.end))
+			);
+			const count = references.length || (this.app.metadataCache.resolvedLinks[source.file]?.[target.file] ?? 0);
+
+			let label: string | undefined;
+			if (styling.edgeLabels === 'count' && count > 1) {
+				label = `${count}×`;
+			} else if (styling.edgeLabels === 'alias') {
+				const aliases = Array.from(new Set(references.map(ref => ref.alias).filter(alias => alias)));
+				label = aliases.length > 0 ? aliases.join(', ') : undefined;
+			} else if (styling.edgeLabels === 'context' && references.length > 0) {
+				if (!contents.has(sourceFile.path)) {
+					contents.set(sourceFile.path, await this.app.vault.cachedRead(sourceFile));
+				}
+				label = getLinkContext(contents.get(sourceFile.path) ?? '', references[0].start, references[0].end) || undefined;
+			}
+			if (label) edge.label = label;
+
+			if (styling.edgeWeightColors && !edge.color) {
+				const bucket = EDGE_WEIGHT_BUCKETS.find(b => count >= b.minCount);
+				if (bucket) edge.color = bucket.color;
+			}
+		}
+	}
+
+	// Give heading and block references their own file nodes with a subpath, and optionally
+	// split the center note into its headings so outgoing links start from the right section
+	splitNodesIntoSections(canvasData: CanvasData, centerFile: TFile | null) {
+		const nodesById = new Map<string, CanvasNode>();
+		canvasData.nodes.forEach((node: CanvasNode) => nodesById.set(node.id, node));
+		const sectionNodes = new Map<string, {node: CanvasNode, parent: CanvasFileNode}>();
+
+		const getSectionNode = (parent: CanvasFileNode, subpath: string): CanvasNode => {
+			const id = this.getNodeId(parent.file + subpath);
+			const existing = sectionNodes.get(id)?.node ?? nodesById.get(id);
+			if (existing) return existing;
+			const node: CanvasFileNode = {
+				id,
+				type: "file",
+				file: parent.file,
+				subpath,
+				x: parent.x,
+				y: parent.y,
+				width: NODE_WIDTH,
+				height: SECTION_HEIGHT
+			};
+			if (parent.color) node.color = parent.color;
+			sectionNodes.set(id, {node, parent});
+			return node;
+		};
+
+		// Heading nodes of the center note are created first so they stack in document order
+		const centerNode = centerFile ? canvasData.nodes.filter(isFileNode).find(n => n.file === centerFile.path && !n.subpath) : null;
+		const headings = centerFile ? this.app.metadataCache.getFileCache(centerFile)?.headings ?? [] : [];
+		const splitCenter = this.settings.splitCenterNote && centerNode && headings.length > 0;
+		const headingNodes = splitCenter ? headings.map(heading => getSectionNode(centerNode, `#${heading.heading}`)) : [];
+
+		let edges: CanvasEdge[] = canvasData.edges;
+
+		// Edges that point at a heading or block go to a node for that section
+		if (this.settings.linkGranularity === 'section') {
+			const redirected: CanvasEdge[] = [];
+			for (const edge of edges) {
+				const source = nodesById.get(edge.fromNode);
+				const target = nodesById.get(edge.toNode);
+				if (!source || !target || !isFileNode(source) || !isFileNode(target) || !target.file.endsWith('.md')) {
+					redirected.push(edge);
+					continue;
+				}
+
+				const references = this.getLinkReferences(source.file, target.file);
+				const subpaths = Array.from(new Set(references.map(ref => ref.subpath).filter(subpath => subpath)));
+				if (subpaths.length === 0 || references.some(ref => !ref.subpath)) {
+					// The note is also linked as a whole
+					redirected.push(edge);
+				}
+				subpaths.forEach(subpath => {
+					const sectionNode = getSectionNode(target, subpath);
+					redirected.push({ ...edge, id: this.getEdgeId(source.id, sectionNode.id), toNode: sectionNode.id });
+				});
+			}
+			edges = redirected;
+		}
+
+		// Outgoing links of the center note start from the heading they appear under
+		if (splitCenter && centerFile) {
+			const redistributed: CanvasEdge[] = [];
+			for (const edge of edges) {
+				const target = edge.fromNode === centerNode.id ? (nodesById.get(edge.toNode) ?? sectionNodes.get(edge.toNode)?.node) : null;
+				if (!target || !isFileNode(target)) {
+					redistributed.push(edge);
+					continue;
+				}
+
+				const references = this.getLinkReferences(centerFile.path, target.file)
+					.filter(ref => (ref.subpath || '') === (target.subpath ?? ''));
+				const headingIndexes = new Set<number>();
+				let keepWhole = references.length === 0;
+				references.forEach(ref => {
+					let index = -1;
+					headings.forEach((heading, i) => {
+						if (heading.position.start.line <= ref.line) index = i;
+					});
+					if (index < 0) {
+						// Links above the first heading stay on the whole note
+						keepWhole = true;
+					} else {
+						headingIndexes.add(index);
+					}
+				});
+
+				if (keepWhole) redistributed.push(edge);
+				headingIndexes.forEach(index => {
+					const headingNode = headingNodes[index];
+					redistributed.push({ ...edge, id: this.getEdgeId(headingNode.id, edge.toNode), fromNode: headingNode.id });
+				});
+			}
+			edges = redistributed;
+		}
+
+		// Whole-note nodes that lost all their edges to sections are replaced by them
+		const connectedIds = new Set<string>();
+		edges.forEach(edge => {
+			connectedIds.add(edge.fromNode);
+			connectedIds.add(edge.toNode);
+		});
+		const replacedIds = new Set<string>();
+		sectionNodes.forEach(({parent}) => {
+			if (!connectedIds.has(parent.id) && (parent !== centerNode || splitCenter)) {
+				replacedIds.add(parent.id);
+			}
+		});
+		canvasData.nodes = canvasData.nodes.filter((node: CanvasNode) => !replacedIds.has(node.id));
+
+		// Stack each note's sections where the note was, or below it when it stays
+		const stackOffsets = new Map<string, number>();
+		sectionNodes.forEach(({node, parent}) => {
+			const offset = stackOffsets.get(parent.id) ?? (replacedIds.has(parent.id) ? 0 : parent.height + 40);
+			node.y = parent.y + offset;
+			while (canvasData.nodes.some((other: CanvasNode) => this.nodesOverlap(node, other))) {
+				node.y += SECTION_HEIGHT + 40;
+			}
+			stackOffsets.set(parent.id, node.y - parent.y + SECTION_HEIGHT + 40);
+			canvasData.nodes.push(node);
+		});
+
+		canvasData.edges = edges;
+	}
+
+	getBacklinks(file: TFile): TFile[] {
+		const backlinkFiles: TFile[] = [];
+		
+		// Find all files that link to the current file
+		this.getBacklinkIndex().get(file.path)?.forEach(sourcePath => {
+			const sourceFile = this.app.vault.getAbstractFileByPath(sourcePath);
+			// Only notes are followed back, attachments and canvases never link to anything
+			if (sourceFile && sourceFile instanceof TFile && sourceFile.extension === 'md') {
+				backlinkFiles.push(sourceFile);
+			}
+		});
+		
+		return backlinkFiles;
+	}
+
+	getBacklinkIndex(): Map<string, Set<string>> {
+		if (!this.backlinkIndex) {
+			this.backlinkIndex = new Map<string, Set<string>>();
+			this.indexedLinks.clear();
+			Object.keys(this.app.metadataCache.resolvedLinks).forEach(sourcePath => this.indexLinksFrom(sourcePath));
+		}
+		return this.backlinkIndex;
+	}
+
+	indexLinksFrom(sourcePath: string) {
+		const index = this.backlinkIndex;
+		if (!index) return;
+		const targets = Object.keys(this.app.metadataCache.resolvedLinks[sourcePath] ?? {});
+		targets.forEach(targetPath => {
+			if (!index.has(targetPath)) index.set(targetPath, new Set<string>());
+			index.get(targetPath)?.add(sourcePath);
+		});
+		this.indexedLinks.set(sourcePath, targets);
+	}
+
+	unindexLinksFrom(sourcePath: string) {
+		(this.indexedLinks.get(sourcePath) ?? []).forEach(targetPath => {
+			const sources = this.backlinkIndex?.get(targetPath);
+			sources?.delete(sourcePath);
+			if (sources && sources.size === 0) this.backlinkIndex?.delete(targetPath);
+		});
+		this.indexedLinks.delete(sourcePath);
+	}
+
+	renameInBacklinkIndex(oldPath: string, newPath: string) {
+		const index = this.backlinkIndex;
+		if (!index) return;
+
+		// Links from the renamed note
+		const targets = this.indexedLinks.get(oldPath);
+		if (targets) {
+			targets.forEach(targetPath => {
+				index.get(targetPath)?.delete(oldPath);
+				index.get(targetPath)?.add(newPath);
+			});
+			this.indexedLinks.delete(oldPath);
+			this.indexedLinks.set(newPath, targets);
+		}
+
+		// Links to the renamed note
+		const sources = index.get(oldPath);
+		if (sources) {
+			sources.forEach(sourcePath => {
+				const sourceTargets = this.indexedLinks.get(sourcePath);
+				if (sourceTargets) this.indexedLinks.set(sourcePath, sourceTargets.map(path => path === oldPath ? newPath : path));
+			});
+			index.delete(oldPath);
+			index.set(newPath, sources);
+		}
+	}
+	
+	getForwardLinks(file: TFile): TFile[] {
+		const forwardLinks: TFile[] = [];
+		const links = this.app.metadataCache.resolvedLinks[file.path];
+		
+		if (links) {
+			for (const targetPath of Object.keys(links)) {
+				const targetFile = this.app.vault.getAbstractFileByPath(targetPath);
+				if (targetFile && targetFile instanceof TFile && this.isIncludedLinkTarget(targetFile)) {
+					forwardLinks.push(targetFile);
+				}
+			}
+		}
+		
+		return forwardLinks;
+	}
+
+	isIncludedLinkTarget(file: TFile): boolean {
+		if (file.extension === 'md') return true;
+		if (file.extension === 'canvas') return this.settings.includeCanvases;
+		return this.settings.includeAttachments;
+	}
+
+	// Walk the link graph breadth first, so every note is recorded at its shortest distance from the seeds.
+	// A note stays on the side (backlinks or forward links) of the seed link it was reached through, and
+	// each side stops at its own depth. With one direction only, that direction is followed transitively.
+	async getAllNodesAndConnections(seeds: TFile[], options: GenerationOptions): Promise<{
+		nodes: Array<{file: TFile, level: number, isBacklink: boolean}>,
+		connections: Map<string, Set<string>>,
+		truncated: boolean
+	}> {
+		const visited = new Set<string>();
+		const nodes: Array<{file: TFile, level: number, isBacklink: boolean}> = [];
+		const connections = new Map<string, Set<string>>();
+		const hidden = new Set<string>();
+		const followForward = options.direction !== 'incoming';
+		const followBacklinks = options.direction !== 'outgoing';
+		const maxLevel = (isBacklink: boolean) => isBacklink ? options.backlinkDepth : options.forwardDepth;
+
+		// Notes whose links are followed next, with their side (null for the seeds)
+		let frontier: Array<{file: TFile, isBacklink: boolean | null}> = [];
+
+		// Add the center node, or every seed, at level 0
+		for (const seed of seeds) {
+			nodes.push({file: seed, level: 0, isBacklink: false});
+			visited.add(seed.path);
+			connections.set(seed.path, new Set<string>());
+			frontier.push({file: seed, isBacklink: null});
+		}
+		
+		// Explore one level at a time, in chunks so large vaults don't freeze the UI
+		const progress: TraversalProgress = {
+			limit: Math.max(this.settings.maxCanvasNodes, seeds.length),
+			truncated: false,
+			started: Date.now(),
+			chunkStart: Date.now(),
+			notice: null
+		};
+		try {
+			for (let level = 1; frontier.length > 0; level++) {
+				const nextFrontier: typeof frontier = [];
+
+				// Record the link between two notes, adding the other note when it is new and fits
+				const addLink = (from: TFile, to: TFile, other: TFile, isBacklink: boolean) => {
+					if (!visited.has(other.path)) {
+						const visible = this.getNoteVisibility(other, options.filters) === 'visible';
+						if (visible && nodes.length >= progress.limit) {
+							progress.truncated = true;
+							return;
+						}
+						visited.add(other.path);
+						if (visible) {
+							nodes.push({file: other, level, isBacklink});
+						} else {
+							hidden.add(other.path);
+						}
+						connections.set(other.path, connections.get(other.path) ?? new Set<string>());
+						// Attachments and canvases are drawn but never traversed
+						if (other.extension === 'md' && level < maxLevel(isBacklink)) {
+							nextFrontier.push({file: other, isBacklink});
+						}
+					}
+					if (!connections.has(from.path)) {
+						connections.set(from.path, new Set<string>());
+					}
+					connections.get(from.path)!.add(to.path);
+				};
+
+				for (const {file, isBacklink} of frontier) {
+					await this.yieldTraversal(progress, nodes.length);
+
+					// Links and backlinks of this note, minus notes the filters drop entirely
+					if (followForward && (isBacklink !== null || options.forwardDepth >= level)) {
+						this.getForwardLinks(file)
+							.filter(linkedFile => this.getNoteVisibility(linkedFile, options.filters) !== 'excluded')
+							.forEach(linkedFile => addLink(file, linkedFile, linkedFile, isBacklink ?? false));
+					}
+					if (followBacklinks && (isBacklink !== null || options.backlinkDepth >= level)) {
+						this.getBacklinks(file)
+							.filter(linkedFile => this.getNoteVisibility(linkedFile, options.filters) !== 'excluded')
+							.forEach(linkedFile => addLink(linkedFile, file, linkedFile, isBacklink ?? true));
+					}
+				}
+				frontier = nextFrontier;
+			}
+		} finally {
+			progress.notice?.hide();
+		}
+		contractHiddenNodes(connections, hidden);
+		
+		return { nodes, connections, truncated: progress.truncated };
+	}
+
+	// Give the UI a turn once the current chunk has used its time
+	async yieldTraversal(progress: TraversalProgress, count: number) {
+		const now = Date.now();
+		if (now - progress.chunkStart < TRAVERSAL_CHUNK_MS) return;
+		if (!progress.notice && now - progress.started > TRAVERSAL_PROGRESS_DELAY) {
+			progress.notice = new Notice('', 0);
+		}
+		progress.notice?.setMessage(`Collecting notes for the canvas: ${count} of at most ${progress.limit}`);
+		await new Promise(resolve => setTimeout(resolve, 0));
+		progress.chunkStart = Date.now();
+	}
+
+	organizeNodesIntoLayers(
+		centerFile: TFile, 
+		allNodes: Array<{file: TFile, level: number, isBacklink: boolean}>, 
+		connections: Map<string, Set<string>>
+	): Array<Array<{file: TFile, level: number, isBacklink: boolean}>> {
+		// Create separate layers for backlinks (left) and forward links (right)
+		const backlinkLayers: Array<Array<{file: TFile, level: number, isBacklink: boolean}>> = [];
+		const forwardLinkLayers: Array<Array<{file: TFile, level: number, isBacklink: boolean}>> = [];
+		
+		// Find the maximum level for both backlinks and forward links
+		const maxBacklinkLevel = Math.max(...allNodes.filter(node => node.isBacklink).map(node => node.level), 0);
+		const maxForwardLinkLevel = Math.max(...allNodes.filter(node => !node.isBacklink).map(node => node.level), 0);
+		
+		// Create layers for backlinks (left side)
+		for (let level = 0; level <= maxBacklinkLevel; level++) {
+			backlinkLayers.push([]);
+		}
+		
+		// Create layers for forward links (right side)
+		for (let level = 0; level <= maxForwardLinkLevel; level++) {
+			forwardLinkLayers.push([]);
+		}
+		
+		// Add center node to both layer arrays at index 0 (will be used for positioning)
+		backlinkLayers[0].push({file: centerFile, level: 0, isBacklink: false});
+		forwardLinkLayers[0].push({file: centerFile, level: 0, isBacklink: false});
+		
+		// Add other nodes to their respective layers based on their level and backlink status
+		allNodes.forEach(node => {
+			if (node.file.path !== centerFile.path) {
+				if (node.isBacklink) {
+					// Backlinks go to the left
+					if (node.level < backlinkLayers.length) {
+						backlinkLayers[node.level].push(node);
+					}
+				} else {
+					// Forward links go to the right
+					if (node.level < forwardLinkLayers.length) {
+						forwardLinkLayers[node.level].push(node);
+					}
+				}
+			}
+		});
+		
+		// Sort nodes within each layer
+		backlinkLayers.forEach(layer => {
+			layer.sort((a, b) => a.file.basename.localeCompare(b.file.basename));
+		});
+		
+		forwardLinkLayers.forEach(layer => {
+			layer.sort((a, b) => a.file.basename.localeCompare(b.file.basename));
+		});
+		
+		// Combine layers: backlinks first (left), then forward links (right)
+		const combinedLayers: Array<Array<{file: TFile, level: number, isBacklink: boolean}>> = [];
+		
+		// Add backlink layers (left side)
+		for (let i = backlinkLayers.length - 1; i >= 0; i--) {
+			if (backlinkLayers[i].length > 0) {
+				combinedLayers.push(backlinkLayers[i]);
+			}
+		}
+		
+		// Add forward link layers (right side)
+		for (let i = 0; i < forwardLinkLayers.length; i++) {
+			if (forwardLinkLayers[i].length > 0) {
+				combinedLayers.push(forwardLinkLayers[i]);
+			}
+		}
+		
+		if (this.settings.layerOrdering !== 'alphabetical') {
+			return minimizeLayerCrossings(combinedLayers, connections, centerFile.path, this.settings.layerOrdering);
+		}
+		
+		return combinedLayers;
+	}
+
+	// Expand every note that is on the canvas in the given directions, in a single write
+	async expandAllCanvasNodes(canvasFile: TFile, directions: Array<'left' | 'right'>, operation: string): Promise<number> {
+		let added = 0;
+		await this.mutateCanvas(canvasFile, operation, async (canvasData) => {
+			const options = this.getStoredGenerationOptions(canvasData);
+			// Notes added during this expansion are not expanded again
+			const focusNodes = canvasData.nodes.filter(isFileNode);
+			const newNodes: CanvasNode[] = [];
+			for (const focusNode of focusNodes) {
+				for (const direction of directions) {
+					newNodes.push(...this.expandNodeInData(canvasData, focusNode, direction, options));
+				}
+			}
+			added = newNodes.length;
+			if (added === 0) return false;
+
+			const newNodeIds = new Set(newNodes.map((n: CanvasNode) => n.id));
+			const newEdges = canvasData.edges.filter((e: CanvasEdge) => newNodeIds.has(e.fromNode) || newNodeIds.has(e.toNode));
+			await this.decorateEdges(canvasData, newEdges, options.styling);
+			newEdges.forEach((edge: CanvasEdge) => this.recordGeneratedEdge(canvasData, edge));
+			canvasData.meta.modified = new Date().toISOString();
+			return true;
+		});
+		return added;
+	}
+
+	// Add the links of one node that aren't on the canvas yet, returning the new nodes
+	expandNodeInData(canvasData: CanvasData, focusNode: CanvasFileNode, direction: 'left' | 'right', options: GenerationOptions): CanvasNode[] {
+		const focusNote = this.app.vault.getAbstractFileByPath(focusNode.file);
+		if (!(focusNote instanceof TFile)) return [];
+
+		const newConnections = this.getFilteredLinks(focusNote, direction, options.filters);
+
+		// Filter out nodes that already exist in the canvas
+		const existingPaths = new Set(canvasData.nodes.filter(isFileNode).map(n => n.file));
+		const nodesToAdd = newConnections.filter(linkedFile => !existingPaths.has(linkedFile.path));
+
+		const newNodes: CanvasNode[] = nodesToAdd.length > 0 ? this.addNodesNextTo(canvasData, focusNode, nodesToAdd, direction, options.styling) : [];
+		if (direction === 'right') {
+			newNodes.push(...this.addPlaceholderNodes(canvasData, [focusNode]));
+		}
+		return newNodes;
+	}
+
+	// Expand a single node, optionally following the new notes for more levels
+	async expandCanvasNode(canvasFile: TFile, nodeId: string, direction: 'left' | 'right' | 'both', levels = 1) {
+		try {
+			const canvas = await this.readCanvasData(canvasFile);
+			const node = canvas?.nodes.find((n: CanvasNode) => n.id === nodeId);
+			if (!node) {
+				new Notice('Could not find the node on the canvas.');
+				return;
+			}
+			if (!isFileNode(node)) {
+				new Notice('Only notes can be expanded.');
+				return;
+			}
+			const directionName = direction === 'left' ? 'backlinks' : direction === 'right' ? 'forward links' : 'links';
+
+			let added = 0;
+			await this.mutateCanvas(canvasFile, `Expanded ${directionName} of ${this.getNodeDisplayName(node)}`, async (canvasData) => {
+				const startNode = canvasData.nodes.find((n: CanvasNode) => n.id === nodeId);
+				if (!startNode || !isFileNode(startNode)) return false;
+
+				const options = this.getStoredGenerationOptions(canvasData);
+				const directions: Array<'left' | 'right'> = direction === 'both' ? ['left', 'right'] : [direction];
+				const newNodes: CanvasNode[] = [];
+				let frontier = [startNode];
+				for (let level = 0; level < levels && frontier.length > 0; level++) {
+					const nextFrontier: CanvasFileNode[] = [];
+					for (const focusNode of frontier) {
+						for (const side of directions) {
+							const newForSide = this.expandNodeInData(canvasData, focusNode, side, options);
+							newNodes.push(...newForSide);
+							nextFrontier.push(...newForSide.filter(isFileNode));
+						}
+					}
+					frontier = nextFrontier;
+				}
+				added = newNodes.length;
+				if (added === 0) return false;
+
+				const newNodeIds = new Set(newNodes.map((n: CanvasNode) => n.id));
+				const newEdges = canvasData.edges.filter((e: CanvasEdge) => newNodeIds.has(e.fromNode) || newNodeIds.has(e.toNode));
+				await this.decorateEdges(canvasData, newEdges, options.styling);
+				newEdges.forEach((edge: CanvasEdge) => this.recordGeneratedEdge(canvasData, edge));
+				canvasData.meta.modified = new Date().toISOString();
+				return true;
+			});
+
+			if (added === 0) {
+				new Notice('No new connections found for this note.');
+			} else {
+				new Notice(`Added ${added} ${added === 1 ? 'node' : 'nodes'} to the canvas`);
+			}
+		} catch (error) {
+			console.error('Error expanding canvas node:', error);
+			new Notice('Error expanding canvas node');
+		}
+	}
+
+	getNodeDisplayName(node: CanvasNode): string {
+		if (isFileNode(node)) {
+			const name = node.file.split('/').pop() ?? node.file;
+			return name.replace(/\.md$/, '') + (node.subpath ?? '');
+		}
+		if (isGroupNode(node)) return node.label ?? node.id;
+		if (isTextNode(node)) return node.text;
+		if (isLinkNode(node)) return node.url;
+		// Nodes of types from other plugins
+		return node.id;
+	}
+
+	async undoCanvasChange() {
+		const canvasFile = this.getActiveCanvasFile();
+		if (!canvasFile || !this.history[canvasFile.path]?.undo.length) {
+			new Notice('Nothing to undo on this canvas.');
+			return;
+		}
+		await this.undoCanvasChanges(canvasFile.path, 1);
+	}
+
+	// Undo the most recent changes of a canvas in one write
+	async undoCanvasChanges(canvasPath: string, steps: number) {
+		const history = this.history[canvasPath];
+		if (!history || steps <= 0) return;
+		try {
+			const undone = history.undo.splice(Math.max(0, history.undo.length - steps));
+			if (undone.length === 0) return;
+
+			// Redo brings back what was on the canvas at the time of the undo, including edits made since
+			const canvasFile = this.app.vault.getAbstractFileByPath(canvasPath);
+			const current = canvasFile instanceof TFile ? await this.readCanvasContent(canvasFile) : null;
+			const newest = undone[undone.length - 1];
+			undone[undone.length - 1] = { ...newest, after: current ?? newest.after };
+			history.redo.push(...undone.slice().reverse());
+			this.lastUndoneCanvasPath = canvasPath;
+			await this.saveHistory();
+
+			await this.restoreCanvasContent(canvasPath, undone[0].before);
+			new Notice(`Undid ${undone.length === 1 ? undone[0].operation : `${undone.length} changes`}`);
+		} catch (error) {
+			console.error('Error undoing canvas change:', error);
+			new Notice('Error undoing canvas change');
+		}
+	}
+
+	async redoCanvasChange() {
+		// Undoing a generation deletes the canvas, so fall back to the last canvas that had an undo
+		const activeCanvas = this.getActiveCanvasFile();
+		const canvasPath = activeCanvas && this.history[activeCanvas.path]?.redo.length ? activeCanvas.path : this.lastUndoneCanvasPath;
+		const history = canvasPath ? this.history[canvasPath] : null;
+		const entry = history?.redo.pop();
+		if (!canvasPath || !history || !entry) {
+			new Notice('Nothing to redo on this canvas.');
+			return;
+		}
+		try {
+			const canvasFile = this.app.vault.getAbstractFileByPath(canvasPath);
+			const current = canvasFile instanceof TFile ? await this.readCanvasContent(canvasFile) : null;
+			history.undo.push({ ...entry, before: current });
+			await this.saveHistory();
+
+			await this.restoreCanvasContent(canvasPath, entry.after);
+			new Notice(`Redid ${entry.operation}`);
+		} catch (error) {
+			console.error('Error redoing canvas change:', error);
+			new Notice('Error redoing canvas change');
+		}
+	}
+
+	// Put a snapshot back on disk. A null snapshot means the canvas didn't exist.
+	async restoreCanvasContent(canvasPath: string, content: string | null) {
+		const canvasFile = this.app.vault.getAbstractFileByPath(canvasPath);
+		if (content === null) {
+			if (canvasFile instanceof TFile) {
+				this.restoringCanvases.add(canvasPath);
+				try {
+					await this.app.fileManager.trashFile(canvasFile);
+				} finally {
+					this.restoringCanvases.delete(canvasPath);
+				}
+			}
+			return;
+		}
+		if (canvasFile instanceof TFile) {
+			const restored = parseCanvas(content);
+			await this.mutateCanvas(canvasFile, null, (canvasData) => {
+				const fields = canvasData as unknown as Record<string, unknown>;
+				Object.keys(fields).forEach(key => delete fields[key]);
+				Object.assign(canvasData, restored);
+				return true;
+			});
+		} else {
+			await this.app.vault.create(canvasPath, content);
+		}
+	}
+
+	showCanvasHistory() {
+		const canvasFile = this.getActiveCanvasFile();
+		const entries = canvasFile ? this.history[canvasFile.path]?.undo ?? [] : [];
+		if (!canvasFile || entries.length === 0) {
+			new Notice('No changes recorded for this canvas.');
+			return;
+		}
+		new CanvasHistoryModal(this.app, entries, (steps) => this.undoCanvasChanges(canvasFile.path, steps)).open();
+	}
+
+	getActiveCanvasFile(): TFile | null {
+		const activeFile = (this.app.workspace.activeLeaf?.view as CanvasViewLike | undefined)?.file;
+		return activeFile instanceof TFile && activeFile.extension === 'canvas' ? activeFile : null;
+	}
+
+	// The node of the note the canvas was generated for
+	getCenterNodeId(canvasData: CanvasData): string | null {
+		const sourcePath = canvasData.meta?.canvasAutoGen?.source;
+		const center = canvasData.nodes.find((node: CanvasNode) => isFileNode(node) && node.file === sourcePath && !node.subpath);
+		return center ? center.id : null;
+	}
+
+	// Nodes that were only reached through this node. The center note, nodes the user added
+	// and everything they still reach without passing through this node stay.
+	getCollapsibleNodeIds(canvasData: CanvasData, nodeId: string): Set<string> {
+		const adjacency = getCanvasAdjacency(canvasData);
+		const blocked = new Set<string>([nodeId]);
+		const centerId = this.getCenterNodeId(canvasData);
+		const keptRoots = canvasData.nodes
+			.filter((node: CanvasNode) => node.id === centerId || (!isGroupNode(node) && !this.isGeneratedNode(node)))
+			.map((node: CanvasNode) => node.id);
+		const kept = getCanvasDistances(adjacency, keptRoots, blocked);
+		const expanded = getCanvasDistances(adjacency, Array.from(adjacency.get(nodeId) ?? []), blocked);
+
+		return new Set<string>(canvasData.nodes
+			.filter((node: CanvasNode) => expanded.has(node.id) && !kept.has(node.id) && !isGroupNode(node) && this.isGeneratedNode(node))
+			.map((node: CanvasNode) => node.id));
+	}
+
+	// Remove nodes with their edges and bookkeeping, and generated groups left empty
+	removeCanvasNodes(canvasData: CanvasData, nodeIds: Set<string>) {
+		canvasData.nodes = canvasData.nodes.filter((node: CanvasNode) => !nodeIds.has(node.id));
+		canvasData.edges = canvasData.edges.filter((edge: CanvasEdge) => !nodeIds.has(edge.fromNode) && !nodeIds.has(edge.toNode));
+
+		const emptyGroups = canvasData.nodes.filter((group: CanvasNode) => isGroupNode(group) && this.isGeneratedNode(group) &&
+			!canvasData.nodes.some((node: CanvasNode) => !isGroupNode(node) && node.x >= group.x && node.y >= group.y &&
+				node.x + node.width <= group.x + group.width && node.y + node.height <= group.y + group.height));
+		canvasData.nodes = canvasData.nodes.filter((node: CanvasNode) => !emptyGroups.includes(node));
+
+		const state = canvasData.meta?.canvasAutoGen;
+		const removedIds = new Set([...Array.from(nodeIds), ...emptyGroups.map((group: CanvasNode) => group.id)]);
+		removedIds.forEach(id => delete state?.generated?.[id]);
+		this.forgetGeneratedEdges(canvasData, removedIds);
+		if (state?.stale) {
+			const edgeIds = new Set(canvasData.edges.map((edge: CanvasEdge) => edge.id));
+			const nodeIdsLeft = new Set(canvasData.nodes.map((node: CanvasNode) => node.id));
+			state.stale = state.stale.filter((id: string) => nodeIdsLeft.has(id) || edgeIds.has(id));
+		}
+	}
+
+	// Current canvas data, including unsaved changes when the canvas is open
+	async readCanvasData(canvasFile: TFile): Promise<CanvasData | null> {
+		try {
+			return parseCanvas(await this.readCanvasContent(canvasFile));
+		} catch (e) {
+			console.error('Error reading canvas:', e);
+			new Notice(e instanceof CanvasParseError ? e.message : 'Invalid canvas data.');
+			return null;
+		}
+	}
+
+	// The live canvas of a view that has the file open
+	getOpenCanvas(canvasFile: TFile): CanvasLike | null {
+		for (const leaf of this.app.workspace.getLeavesOfType('canvas')) {
+			const view = leaf.view as CanvasViewLike;
+			if (view.file?.path === canvasFile.path && view.canvas) {
+				return view.canvas;
+			}
+		}
+		return null;
+	}
+
+	async readCanvasContent(canvasFile: TFile): Promise<string> {
+		const canvas = this.getOpenCanvas(canvasFile);
+		if (!canvas) {
+			return this.app.vault.read(canvasFile);
+		}
+		// The live canvas only holds nodes and edges, the rest of the file comes from disk
+		// and the meta from the last change made while the canvas was open
+		let fileData: Partial<CanvasData> = {};
+		try {
+			fileData = parseCanvas(await this.app.vault.cachedRead(canvasFile));
+		} catch (e) {
+			// Nothing valid on disk yet, use the live data only
+		}
+		const meta = this.openCanvasMeta.get(canvasFile.path) ?? fileData.meta;
+		return serializeCanvas({ ...fileData, ...canvas.getData(), meta: meta ?? {} });
+	}
+
+	// Merge the kept meta of a canvas into its file, when the file doesn't have it already
+	async writeCanvasMeta(canvasFile: TFile) {
+		const meta = this.openCanvasMeta.get(canvasFile.path);
+		if (!meta) return;
+		const hasMeta = (content: string) => JSON.stringify(parseCanvas(content).meta) === JSON.stringify(meta);
+		try {
+			// Checked before writing, so the write this causes doesn't start another one
+			if (hasMeta(await this.app.vault.read(canvasFile))) return;
+			await this.app.vault.process(canvasFile, (current) => {
+				return hasMeta(current) ? current : serializeCanvas({ ...parseCanvas(current), meta });
+			});
+		} catch (e) {
+			console.error(`Error writing canvas meta of ${canvasFile.path}:`, e);
+		}
+	}
+
+	// Write the kept meta of canvases that are no longer open and stop keeping it
+	async flushClosedCanvasMeta() {
+		for (const path of Array.from(this.openCanvasMeta.keys())) {
+			const canvasFile = this.app.vault.getAbstractFileByPath(path);
+			if (canvasFile instanceof TFile && this.getOpenCanvas(canvasFile)) continue;
+			if (canvasFile instanceof TFile) await this.writeCanvasMeta(canvasFile);
+			this.openCanvasMeta.delete(path);
+		}
+	}
+
+	// Apply one change to a canvas in a single write. Open canvases are changed through their live data
+	// so unsaved edits in the view are kept, closed ones are written with vault.process. When the canvas
+	// changes while the mutation runs, the mutation is run again on the new content.
+	async mutateCanvas(canvasFile: TFile, operation: string | null, mutate: (canvasData: CanvasData) => boolean | Promise<boolean>): Promise<boolean> {
+		for (let attempt = 0; attempt < MUTATION_ATTEMPTS; attempt++) {
+			const before = await this.readCanvasContent(canvasFile);
+			let canvasData: CanvasData;
+			try {
+				canvasData = parseCanvas(before);
+			} catch (e) {
+				new Notice(e instanceof CanvasParseError ? e.message : 'Invalid canvas data.');
+				return false;
+			}
+			if (!(await mutate(canvasData))) return false;
+			const after = serializeCanvas(canvasData);
+
+			let applied = false;
+			const canvas = this.getOpenCanvas(canvasFile);
+			if (canvas) {
+				if (await this.readCanvasContent(canvasFile) === before) {
+					// The view saves nodes and edges, the meta is written after that save
+					this.openCanvasMeta.set(canvasFile.path, canvasData.meta);
+					canvas.setData(canvasData);
+					canvas.requestSave();
+					applied = true;
+				}
+			} else {
+				await this.app.vault.process(canvasFile, (current) => {
+					applied = current === before;
+					return applied ? after : current;
+				});
+			}
+
+			if (applied) {
+				if (operation) {
+					await this.recordHistory(canvasFile.path, operation, before, after);
+				}
+				this.markPlaceholderNodes();
+				return true;
+			}
+		}
+		new Notice('The canvas kept changing while it was being updated. Try again.');
+		return false;
+	}
+
+	async collapseCanvasNode(canvasFile: TFile, nodeId: string) {
+		try {
+			const canvas = await this.readCanvasData(canvasFile);
+			const collapsedNode = canvas?.nodes.find((node: CanvasNode) => node.id === nodeId);
+			if (!collapsedNode) return;
+
+			let removed = 0;
+			await this.mutateCanvas(canvasFile, `Collapsed ${this.getNodeDisplayName(collapsedNode)}`, (canvasData) => {
+				const removedIds = this.getCollapsibleNodeIds(canvasData, nodeId);
+				removed = removedIds.size;
+				if (removed === 0) return false;
+				this.removeCanvasNodes(canvasData, removedIds);
+				canvasData.meta.modified = new Date().toISOString();
+				return true;
+			});
+
+			if (removed === 0) {
+				new Notice('Nothing to collapse for this note.');
+			} else {
+				new Notice(`Removed ${removed} ${removed === 1 ? 'node' : 'nodes'} from the canvas`);
+			}
+		} catch (error) {
+			console.error('Error collapsing canvas node:', error);
+			new Notice('Error collapsing canvas node');
+		}
+	}
+
+	async collapseSelectedCanvasNode() {
+		const canvasFile = this.getActiveCanvasFile();
+		const selectedNode = this.getSelectedCanvasNode();
+		if (!canvasFile || !selectedNode) {
+			new Notice('Select a node on a canvas first.');
+			return;
+		}
+		await this.collapseCanvasNode(canvasFile, selectedNode.id);
+	}
+
+	// Distance from the center note of every generated node that can be pruned
+	getPrunableDistances(canvasData: CanvasData): Map<string, number> | null {
+		const centerId = this.getCenterNodeId(canvasData);
+		if (!centerId) return null;
+
+		const distances = getCanvasDistances(getCanvasAdjacency(canvasData), [centerId]);
+		const prunable = new Map<string, number>();
+		canvasData.nodes.forEach((node: CanvasNode) => {
+			const distance = distances.get(node.id);
+			if (distance !== undefined && !isGroupNode(node) && this.isGeneratedNode(node)) {
+				prunable.set(node.id, distance);
+			}
+		});
+		return prunable;
+	}
+
+	// Ask how far from the center note to keep nodes, then remove the generated nodes beyond that
+	async pruneCanvas() {
+		const canvasFile = this.getActiveCanvasFile();
+		if (!canvasFile) {
+			new Notice('Please open a canvas to prune it.');
+			return;
+		}
+		const canvasData = await this.readCanvasData(canvasFile);
+		if (!canvasData) return;
+
+		const distances = this.getPrunableDistances(canvasData);
+		if (!distances) {
+			new Notice('Could not find the original note for this canvas.');
+			return;
+		}
+		const maxDistance = Math.max(0, ...Array.from(distances.values()));
+		if (maxDistance <= 1) {
+			new Notice('Nothing to prune on this canvas.');
+			return;
+		}
+
+		const removedCounts: number[] = [];
+		for (let keep = 1; keep < maxDistance; keep++) {
+			removedCounts[keep] = Array.from(distances.values()).filter(distance => distance > keep).length;
+		}
+
+		new PruneDistanceModal(this.app, removedCounts, async (keep) => {
+			try {
+				let removed = 0;
+				await this.mutateCanvas(canvasFile, `Pruned to ${keep} ${keep === 1 ? 'link' : 'links'} from the center`, (currentData) => {
+					const currentDistances = this.getPrunableDistances(currentData) ?? new Map<string, number>();
+					const removedIds = new Set<string>();
+					currentDistances.forEach((distance, id) => {
+						if (distance > keep) removedIds.add(id);
+					});
+					removed = removedIds.size;
+					if (removed === 0) return false;
+					this.removeCanvasNodes(currentData, removedIds);
+					currentData.meta.modified = new Date().toISOString();
+					return true;
+				});
+				new Notice(`Removed ${removed} ${removed === 1 ? 'node' : 'nodes'} from the canvas`);
+			} catch (error) {
+				console.error('Error pruning canvas:', error);
+				new Notice('Error pruning canvas');
+			}
+		}).open();
+	}
+
+	// Remove generated nodes that have no edges left
+	async removeIsolatedCanvasNodes() {
+		const canvasFile = this.getActiveCanvasFile();
+		if (!canvasFile) {
+			new Notice('Please open a canvas first.');
+			return;
+		}
+		try {
+			let removed = 0;
+			await this.mutateCanvas(canvasFile, 'Removed isolated nodes', (canvasData) => {
+				const adjacency = getCanvasAdjacency(canvasData);
+				const centerId = this.getCenterNodeId(canvasData);
+				const removedIds = new Set<string>(canvasData.nodes
+					.filter((node: CanvasNode) => node.id !== centerId && !isGroupNode(node) && this.isGeneratedNode(node) && adjacency.get(node.id)?.size === 0)
+					.map((node: CanvasNode) => node.id));
+				removed = removedIds.size;
+				if (removed === 0) return false;
+				this.removeCanvasNodes(canvasData, removedIds);
+				canvasData.meta.modified = new Date().toISOString();
+				return true;
+			});
+
+			if (removed === 0) {
+				new Notice('No isolated nodes on this canvas.');
+			} else {
+				new Notice(`Removed ${removed} isolated ${removed === 1 ? 'node' : 'nodes'}`);
+			}
+		} catch (error) {
+			console.error('Error removing isolated nodes:', error);
+			new Notice('Error removing isolated nodes');
+		}
+	}
+
+	// Place new file nodes in the column next to the focus node, avoiding nodes that are already there
+	addNodesNextTo(canvasData: CanvasData, focusNode: CanvasNode, nodesToAdd: TFile[], direction: 'left' | 'right', styling: CanvasStyling = this.settings): CanvasFileNode[] {
+		const newNodes = [];
+		const horizontalSpacing = 450;
+		const verticalSpacing = 280; // Space between nodes vertically
+		const nodeWidth = 300;
+		const nodeHeight = 200;
+
+		// Calculate target X position for new nodes
+		const targetX = focusNode.x + (direction === 'left' ? -horizontalSpacing : horizontalSpacing);
+
+		// Find existing nodes at the target X position (with some tolerance)
+		const existingNodesAtTargetX = canvasData.nodes.filter((n: CanvasNode) => {
+			const xDistance = Math.abs(n.x - targetX);
+			return xDistance < (nodeWidth + 100); // 100px tolerance
+		});
+
+		console.log(`Found ${existingNodesAtTargetX.length} existing nodes at target X position ${targetX}`);
+
+		// Calculate optimal Y positions for new nodes
+		const newNodePositions: { x: number, y: number }[] = [];
+		
+		// Start with the ideal position (centered around focus node)
+		const idealStartY = focusNode.y - ((nodesToAdd.length - 1) * verticalSpacing) / 2;
+		
+		// For each new node, find the best available Y position
+		for (let i = 0; i < nodesToAdd.length; i++) {
+			const idealY = idealStartY + i * verticalSpacing;
+			let bestY = idealY;
+			
+			// Check if this position conflicts with existing nodes
+			const conflicts = existingNodesAtTargetX.filter((existingNode: CanvasNode) => {
+				const existingTop = existingNode.y - nodeHeight / 2 - 20; // 20px buffer
+				const existingBottom = existingNode.y + nodeHeight / 2 + 20;
+				const newNodeTop = bestY - nodeHeight / 2;
+				const newNodeBottom = bestY + nodeHeight / 2;
+				
+				return newNodeTop < existingBottom && newNodeBottom > existingTop;
+			});
+			
+			if (conflicts.length > 0) {
+				// Find the best alternative position
+				const conflict = conflicts[0];
+				const conflictY = conflict.y;
+				
+				// Try positions above the conflict
+				let tryY = conflictY - nodeHeight - verticalSpacing;
+				const aboveConflicts = existingNodesAtTargetX.filter((existingNode: CanvasNode) => {
+					const existingTop = existingNode.y - nodeHeight / 2 - 20;
+					const existingBottom = existingNode.y + nodeHeight / 2 + 20;
+					const newNodeTop = tryY - nodeHeight / 2;
+					const newNodeBottom = tryY + nodeHeight / 2;
+					return newNodeTop < existingBottom && newNodeBottom > existingTop;
+				});
+				
+				if (aboveConflicts.length === 0) {
+					bestY = tryY;
+				} else {
+					// Try positions below the conflict
+					tryY = conflictY + nodeHeight + verticalSpacing;
+					const belowConflicts = existingNodesAtTargetX.filter((existingNode: CanvasNode) => {
+						const existingTop = existingNode.y - nodeHeight / 2 - 20;
+						const existingBottom = existingNode.y + nodeHeight / 2 + 20;
+						const newNodeTop = tryY - nodeHeight / 2;
+						const newNodeBottom = tryY + nodeHeight / 2;
+						return newNodeTop < existingBottom && newNodeBottom > existingTop;
+					});
+					
+					if (belowConflicts.length === 0) {
+						bestY = tryY;
+					} else {
+						// If both above and below are occupied, find the closest free position
+						const allYPositions = existingNodesAtTargetX.map((n: CanvasNode) => n.y).sort((a: number, b: number) => a - b);
+						let foundPosition = false;
+						
+						for (let j = 0; j < allYPositions.length - 1; j++) {
+							const gapStart = allYPositions[j] + nodeHeight / 2 + verticalSpacing;
+							const gapEnd = allYPositions[j + 1] - nodeHeight / 2 - verticalSpacing;
+							
+							if (gapEnd - gapStart >= nodeHeight) {
+								// Found a gap big enough
+								bestY = gapStart + (gapEnd - gapStart) / 2;
+								foundPosition = true;
+								break;
+							}
+						}
+						
+						if (!foundPosition) {
+							// Place at the end
+							const maxY = Math.max(...allYPositions);
+							bestY = maxY + nodeHeight + verticalSpacing;
+						}
+					}
+				}
+			}
+			
+			newNodePositions.push({ x: targetX, y: bestY });
+		}
+
+		// Create and add the new nodes
+		for (let i = 0; i < nodesToAdd.length; i++) {
+			const linkedFile = nodesToAdd[i];
+			const position = newNodePositions[i];
+			
+			// Create new node
+			const newNode: CanvasFileNode = {
+				id: this.getNodeId(linkedFile.path),
+				type: "file",
+				file: linkedFile.path,
+				x: position.x,
+				y: position.y,
+				width: nodeWidth,
+				height: nodeHeight
+			};
+
+			this.applyColorRules(newNode, linkedFile, styling);
+			this.placeNodeInGroup(canvasData, newNode, linkedFile, styling);
+			newNodes.push(newNode);
+
+			// Add edge from focus node to new node
+			const newEdge = {
+				id: direction === 'left' ? this.getEdgeId(newNode.id, focusNode.id) : this.getEdgeId(focusNode.id, newNode.id),
+				fromNode: direction === 'left' ? newNode.id : focusNode.id,
+				fromSide: "right" as const,
+				toNode: direction === 'left' ? focusNode.id : newNode.id,
+				toSide: "left" as const
+			};
+
+			canvasData.nodes.push(newNode);
+			canvasData.edges.push(newEdge);
+			this.recordGeneratedNode(canvasData, newNode);
+			
+			console.log(`Added new node: ${linkedFile.basename} at (${position.x}, ${position.y})`);
+		}
+
+		return newNodes;
+	}
+
+	async expandCanvasManually() {
+		try {
+			// Check if we're currently in a canvas view
+			const canvasFile = this.getActiveCanvasFile();
+			if (!canvasFile) {
+				new Notice('Please open a canvas to expand it.');
+				return;
+			}
+
+			// Find the original note
+			const canvasData = await this.readCanvasData(canvasFile);
+			if (!canvasData) return;
+			const originalNote = this.getSourceNoteForCanvas(canvasFile, canvasData);
+			if (!originalNote) {
+				new Notice('Could not find the original note for this canvas.');
+				return;
+			}
+
+			// Expand every note with its forward links and backlinks
+			const added = await this.expandAllCanvasNodes(canvasFile, ['right', 'left'], 'Expanded all notes');
+			if (added > 0) {
+				new Notice('Canvas expanded successfully!');
+			} else {
+				new Notice('No new connections found to expand the canvas.');
+			}
+
+		} catch (error) {
+			console.error('Error expanding canvas manually:', error);
+			new Notice('Error expanding canvas manually');
+		}
+	}
+	
+	getAllNodesWithDepth(centerFile: TFile, depth: number): Array<{file: TFile, level: number, isBacklink: boolean}> {
+		const visited = new Set<string>();
+		const nodes: Array<{file: TFile, level: number, isBacklink: boolean}> = [];
+		
+		// Add center node
+		nodes.push({file: centerFile, level: 0, isBacklink: false});
+		visited.add(centerFile.path);
+		
+		// Explore backlinks and forward links up to specified depth
+		this.exploreLinks(centerFile, depth, 1, visited, nodes, true); // Backlinks
+		this.exploreLinks(centerFile, depth, 1, visited, nodes, false); // Forward links
+		
+		return nodes;
+	}
+	
+	// 'visible' notes are drawn, 'hidden' notes are only traversed, 'excluded' notes are skipped entirely
+	getNoteVisibility(file: TFile, filters: TraversalFilters): 'visible' | 'hidden' | 'excluded' {
+		if (this.noteMatchesFilters(file, filters)) return 'visible';
+		return filters.traverseExcluded ? 'hidden' : 'excluded';
+	}
+
+	noteMatchesFilters(file: TFile, filters: TraversalFilters): boolean {
+		if (filters.includeFolders.length > 0 && !filters.includeFolders.some(rule => pathMatchesFolderRule(file.path, rule))) {
+			return false;
+		}
+		if (filters.excludeFolders.some(rule => pathMatchesFolderRule(file.path, rule))) {
+			return false;
+		}
+
+		// Tag and frontmatter rules only apply to notes
+		if (file.extension !== 'md') return true;
+
+		const hasTagRules = filters.includeTags.length > 0 || filters.excludeTags.length > 0;
+		if (!hasTagRules && filters.propertyConditions.length === 0) return true;
+
+		const cache = this.app.metadataCache.getFileCache(file);
+		const tags = cache ? (getAllTags(cache) ?? []) : [];
+		if (filters.includeTags.length > 0 && !tags.some(tag => filters.includeTags.some(rule => tagMatchesRule(tag, rule)))) {
+			return false;
+		}
+		if (tags.some(tag => filters.excludeTags.some(rule => tagMatchesRule(tag, rule)))) {
+			return false;
+		}
+
+		return filters.propertyConditions.every(condition => frontmatterMatchesCondition(cache?.frontmatter, condition));
+	}
+
+	// Neighbours in one direction that pass the filters, looking through hidden notes when enabled
+	getFilteredLinks(file: TFile, direction: 'left' | 'right', filters: TraversalFilters = this.settings.filters): TFile[] {
+		const result: TFile[] = [];
+		const seen = new Set<string>([file.path]);
+		let frontier = [file];
+
+		for (let hop = 0; hop <= MAX_HIDDEN_HOPS && frontier.length > 0; hop++) {
+			const next: TFile[] = [];
+			for (const current of frontier) {
+				const links = direction === 'left' ? this.getBacklinks(current) : this.getForwardLinks(current);
+				for (const linkedFile of links) {
+					if (seen.has(linkedFile.path)) continue;
+					seen.add(linkedFile.path);
+					const visibility = this.getNoteVisibility(linkedFile, filters);
+					if (visibility === 'visible') {
+						result.push(linkedFile);
+					} else if (visibility === 'hidden') {
+						next.push(linkedFile);
+					}
+				}
+			}
+			frontier = next;
+		}
+
+		return result;
+	}
+
+	private exploreLinks(
+		file: TFile, 
+		maxDepth: number, 
+		currentDepth: number, 
+		visited: Set<string>, 
+		nodes: Array<{file: TFile, level: number, isBacklink: boolean}>, 
+		isBacklink: boolean
 	) {
 		if (currentDepth > maxDepth) return;
 		
-		// Get both forward links and backlinks for this file
-		const forwardLinks = this.getForwardLinks(file);
-		const backlinks = this.getBacklinks(file);
+		const links = isBacklink ? this.getBacklinks(file) : this.getForwardLinks(file);
 		
-		// Initialize connections for this file if not exists
-		if (!connections.has(file.path)) {
-			connections.set(file.path, new Set<string>());
+		for (const linkedFile of links) {
+			if (!visited.has(linkedFile.path)) {
+				visited.add(linkedFile.path);
+				nodes.push({file: linkedFile, level: currentDepth, isBacklink: isBacklink});
+				
+				// Recursively explore deeper levels
+				this.exploreLinks(linkedFile, maxDepth, currentDepth + 1, visited, nodes, isBacklink);
+			}
+		}
+	}
+
+	async generateCanvasForFile(file: TFile, options: GenerationOptions = this.getGenerationOptions()) {
+		try {
+			const { path: canvasPath, existing: existingCanvas } = await this.findCanvasForFile(file, options);
+			const canvasFileName = canvasPath.split('/').pop();
+			
+			// Check if canvas already exists
+			if (existingCanvas) {
+				if (this.settings.refreshExistingCanvas) {
+					await this.refreshCanvas(existingCanvas, file, options);
+				} else {
+					new Notice(`Canvas already exists: ${canvasFileName}`);
+				}
+				if (this.settings.autoOpenCanvas) {
+					// Open the existing canvas in a new tab
+					await this.app.workspace.openLinkText(canvasPath, '', false);
+				}
+				return;
+			}
+
+			// Create canvas content
+			const canvasData = await this.buildCanvasData(file, options);
+			if (!await this.confirmTruncatedCanvas(canvasData)) return;
+			await this.createCanvasFile(canvasPath, serializeCanvas(canvasData), `Generated canvas for ${file.basename}`);
+		} catch (error) {
+			console.error('Error generating canvas:', error);
+			new Notice('Error generating canvas');
+		}
+	}
+
+	// Ask before creating a canvas whose traversal hit the node limit
+	confirmTruncatedCanvas(canvasData: CanvasData): Promise<boolean> {
+		if (!canvasData.meta.canvasAutoGen?.truncated) return Promise.resolve(true);
+		return new Promise(resolve => {
+			new ConfirmModal(
+				this.app,
+				'Large canvas',
+				`This canvas would have more than ${this.settings.maxCanvasNodes} notes. Only the first ${this.settings.maxCanvasNodes} will be drawn. Lower the depth or raise the node limit in the settings to see more.`,
+				'Generate anyway',
+				resolve
+			).open();
+		});
+	}
+
+	// Create a new canvas file, and the output folder if it doesn't exist yet
+	async createCanvasFile(canvasPath: string, canvasContent: string, operation: string) {
+		const folderPath = canvasPath.split('/').slice(0, -1).join('/');
+		if (folderPath && !this.app.vault.getAbstractFileByPath(folderPath)) {
+			await this.app.vault.createFolder(folderPath);
+		}
+		await this.app.vault.create(canvasPath, canvasContent);
+		await this.recordHistory(canvasPath, operation, null, canvasContent);
+		
+		// Open the new canvas if setting is enabled
+		if (this.settings.autoOpenCanvas) {
+			await this.app.workspace.openLinkText(canvasPath, '', false);
+		}
+		
+		new Notice(`Canvas generated: ${canvasPath.split('/').pop()}`);
+	}
+
+	getCanvasPathForFile(file: TFile, options: GenerationOptions = this.getGenerationOptions()): string {
+		const canvasFileName = options.canvasNameTemplate.replace(/{{\s*basename\s*}}/g, file.basename).trim() || `${file.basename}_canvas`;
+		const folder = options.outputFolder.trim() || (file.parent?.path ?? '');
+		// Normalize path to avoid leading or double slashes
+		return normalizePath(`${folder}/${canvasFileName}.canvas`);
+	}
+
+	// The canvas generated for a note. Notes with the same name share a template path,
+	// so canvases that belong to another note are skipped by numbering the name.
+	async findCanvasForFile(file: TFile, options: GenerationOptions = this.getGenerationOptions()): Promise<{ path: string, existing: TFile | null }> {
+		return this.findCanvasPath(this.getCanvasPathForFile(file, options), (state) => state.source === file.path && !state.target);
+	}
+
+	async findCanvasPath(basePath: string, belongsHere: (state: CanvasAutoGenState) => boolean, matchLegacy = true): Promise<{ path: string, existing: TFile | null }> {
+		for (let attempt = 1; ; attempt++) {
+			const path = attempt === 1 ? basePath : basePath.replace(/\.canvas$/, ` ${attempt}.canvas`);
+			const existing = this.app.vault.getAbstractFileByPath(path);
+			if (!(existing instanceof TFile)) {
+				return { path, existing: null };
+			}
+			try {
+				// Canvases from older versions don't record their source
+				const state = parseCanvas(await this.app.vault.read(existing)).meta.canvasAutoGen;
+				if ((matchLegacy && typeof state?.source !== 'string') || (state && belongsHere(state))) {
+					return { path, existing };
+				}
+			} catch (e) {
+				// Not a canvas we can read, don't overwrite it
+			}
+		}
+	}
+
+	getSourceNoteForCanvas(canvasFile: TFile, canvasData?: CanvasData): TFile | null {
+		const recordedSource = canvasData?.meta?.canvasAutoGen?.source;
+		if (typeof recordedSource === 'string') {
+			const note = this.app.vault.getAbstractFileByPath(recordedSource);
+			return note instanceof TFile ? note : null;
+		}
+
+		// Canvases from older versions are named `${basename}_canvas` and live next to their note
+		const originalNoteName = canvasFile.basename.replace(/_canvas$/, '');
+		const parentPath = canvasFile.parent && !canvasFile.parent.isRoot() ? `${canvasFile.parent.path}/` : '';
+		for (const candidate of [`${parentPath}${originalNoteName}.md`, `${originalNoteName}.md`]) {
+			const note = this.app.vault.getAbstractFileByPath(candidate);
+			if (note instanceof TFile) {
+				return note;
+			}
+		}
+		return null;
+	}
+
+	getNodeId(filePath: string): string {
+		return `node-${hashString(filePath)}`;
+	}
+
+	getEdgeId(fromNodeId: string, toNodeId: string): string {
+		return `edge-${hashString(`${fromNodeId}->${toNodeId}`)}`;
+	}
+
+	getPlaceholderId(linktext: string): string {
+		return `placeholder-${hashString(linktext.toLowerCase())}`;
+	}
+
+	// Placeholders are text nodes holding nothing but the unresolved link
+	getPlaceholderLinktext(node: CanvasNode): string | null {
+		const match = isTextNode(node) && typeof node.text === 'string' ? node.text.match(/^\[\[([^\]|]+)\]\]$/) : null;
+		return match ? match[1] : null;
+	}
+
+	getGroupId(label: string): string {
+		return `group-${hashString(label)}`;
+	}
+
+	isGeneratedNode(node: CanvasNode): boolean {
+		if (isGroupNode(node)) {
+			return typeof node.label === 'string' && node.id === this.getGroupId(node.label);
+		}
+		if (isTextNode(node)) {
+			const linktext = this.getPlaceholderLinktext(node);
+			return linktext !== null && node.id === this.getPlaceholderId(linktext);
+		}
+		return isFileNode(node) && typeof node.file === 'string' && node.id === this.getNodeId(node.file + (node.subpath ?? ''));
+	}
+
+	isGeneratedEdge(edge: CanvasEdge): boolean {
+		return edge.id === this.getEdgeId(edge.fromNode, edge.toNode);
+	}
+
+	// Remember the geometry we gave a node so a refresh can tell whether the user has touched it
+	recordGeneratedNode(canvasData: CanvasData, node: CanvasNode) {
+		if (!canvasData.meta) canvasData.meta = {};
+		if (!canvasData.meta.canvasAutoGen) canvasData.meta.canvasAutoGen = {};
+		const state = canvasData.meta.canvasAutoGen;
+		if (!state.generated) state.generated = {};
+		state.generated[node.id] = [node.x, node.y, node.width, node.height, node.color ?? ''].join(',');
+	}
+
+	// Remember the edges we drew so deleting one on the canvas can be told apart from a link we never showed
+	recordGeneratedEdge(canvasData: CanvasData, edge: CanvasEdge) {
+		if (!canvasData.meta) canvasData.meta = {};
+		if (!canvasData.meta.canvasAutoGen) canvasData.meta.canvasAutoGen = {};
+		const state = canvasData.meta.canvasAutoGen;
+		if (!state.generatedEdges) state.generatedEdges = {};
+		state.generatedEdges[edge.id] = [edge.fromNode, edge.toNode, edge.color ?? ''].join(',');
+	}
+
+	// Edges that went with their nodes weren't deleted by the user
+	forgetGeneratedEdges(canvasData: CanvasData, nodeIds: Set<string>) {
+		const generatedEdges = canvasData.meta?.canvasAutoGen?.generatedEdges;
+		if (!generatedEdges) return;
+		Object.keys(generatedEdges).forEach(id => {
+			const [fromNode, toNode] = generatedEdges[id].split(',');
+			if (nodeIds.has(fromNode) || nodeIds.has(toNode)) delete generatedEdges[id];
+		});
+	}
+
+	// The color a node was generated with, before any stale flag was applied
+	getGeneratedColor(canvasData: CanvasData, node: CanvasNode): string {
+		const recorded: string | undefined = canvasData.meta?.canvasAutoGen?.generated?.[node.id];
+		return recorded?.split(',')[4] ?? '';
+	}
+
+	getGeneratedEdgeColor(canvasData: CanvasData, edge: CanvasEdge): string {
+		const recorded: string | undefined = canvasData.meta?.canvasAutoGen?.generatedEdges?.[edge.id];
+		return recorded?.split(',')[2] ?? '';
+	}
+
+	hasCustomColor(canvasData: CanvasData, node: CanvasNode): boolean {
+		const flagged: string[] = canvasData.meta?.canvasAutoGen?.stale ?? [];
+		return !flagged.includes(node.id) && (node.color ?? '') !== this.getGeneratedColor(canvasData, node);
+	}
+
+	isNodeCustomized(canvasData: CanvasData, node: CanvasNode): boolean {
+		const state = canvasData.meta?.canvasAutoGen;
+		const flagged: string[] = state?.stale ?? [];
+		const color = flagged.includes(node.id) ? this.getGeneratedColor(canvasData, node) : (node.color ?? '');
+		const geometry = state?.generated?.[node.id];
+		return geometry !== [node.x, node.y, node.width, node.height, color].join(',');
+	}
+
+	async refreshCanvasForActiveView() {
+		const activeLeaf = this.app.workspace.activeLeaf;
+		const activeFile = activeLeaf ? (activeLeaf.view as CanvasViewLike).file : null;
+		if (!(activeFile instanceof TFile)) {
+			new Notice('Please open a canvas or a note to refresh its canvas.');
+			return;
+		}
+
+		if (activeFile.extension === 'canvas') {
+			let canvasData: CanvasData;
+			try {
+				canvasData = parseCanvas(await this.app.vault.read(activeFile));
+			} catch (e) {
+				new Notice(e instanceof CanvasParseError ? e.message : 'Invalid canvas data.');
+				return;
+			}
+			// The overview is drawn from the whole vault and simply regenerated
+			if (canvasData.meta.canvasAutoGen?.overview) {
+				const stored: StoredGenerationOptions = canvasData.meta.canvasAutoGen.options ?? {};
+				const filters = isJsonObject(stored.filters) ? { ...this.settings.filters, ...stored.filters } : undefined;
+				await this.generateVaultOverview(typeof stored.budget === 'number' ? stored.budget : undefined, filters);
+				return;
+			}
+			const sourceNote = this.getSourceNoteForCanvas(activeFile, canvasData);
+			if (!sourceNote) {
+				new Notice('Could not find the original note for this canvas.');
+				return;
+			}
+			await this.refreshCanvas(activeFile, sourceNote);
+			return;
+		}
+
+		const { existing: canvasFile } = await this.findCanvasForFile(activeFile);
+		if (!canvasFile) {
+			new Notice('No canvas has been generated for this note yet.');
+			return;
+		}
+		await this.refreshCanvas(canvasFile, activeFile);
+	}
+
+	// Without explicit options the canvas is refreshed with the options it was generated with
+	async refreshCanvas(canvasFile: TFile, sourceFile: TFile, options?: GenerationOptions) {
+		try {
+			let summary = { added: 0, removed: 0, flagged: 0, restored: 0 };
+			let truncated = false;
+			let disconnected: string | null = null;
+			const changed = await this.mutateCanvas(canvasFile, `Refreshed canvas for ${sourceFile.basename}`, async (canvasData) => {
+				const generationOptions = options ?? this.getStoredGenerationOptions(canvasData);
+				const target = canvasData.meta.canvasAutoGen?.target;
+				const targetFile = typeof target === 'string' ? this.app.vault.getAbstractFileByPath(target) : null;
+				// Path canvases are rebuilt from the paths between their two notes, multi-seed
+				// canvases from their seeds as they are found now
+				const seedSource: SeedSource | undefined = canvasData.meta.canvasAutoGen?.seedSource;
+				const seeds = seedSource ? this.resolveSeeds(seedSource) : [sourceFile];
+				if (seeds.length === 0) return false;
+				const freshData = targetFile instanceof TFile
+					? await this.buildPathCanvasData(sourceFile, targetFile, generationOptions)
+					: await this.buildCanvasData(seeds, generationOptions, seedSource);
+				if (!freshData) {
+					if (targetFile instanceof TFile) {
+						disconnected = `${sourceFile.basename} and ${targetFile.basename} are no longer connected by a path of up to ${generationOptions.maxPathLength} links.`;
+					}
+					return false;
+				}
+				truncated = freshData.meta.canvasAutoGen?.truncated === true;
+				summary = this.mergeCanvasData(canvasData, freshData);
+				return summary.added + summary.removed + summary.flagged + summary.restored > 0;
+			});
+
+			if (disconnected) {
+				new Notice(disconnected);
+				return;
+			}
+			if (!changed) {
+				new Notice('Canvas is already up to date.');
+				return;
+			}
+			if (truncated) {
+				new Notice(`Only the first ${this.settings.maxCanvasNodes} notes were drawn. Lower the depth or raise the node limit to see more.`);
+			}
+			new Notice(`Canvas refreshed: ${summary.added} added, ${summary.removed} removed, ${summary.flagged} flagged`);
+		} catch (error) {
+			console.error('Error refreshing canvas:', error);
+			new Notice('Error refreshing canvas');
+		}
+	}
+
+	// Merge freshly generated canvas data into an existing canvas, keeping everything the user changed
+	mergeCanvasData(canvasData: CanvasData, freshData: CanvasData): { added: number, removed: number, flagged: number, restored: number } {
+		const summary = { added: 0, removed: 0, flagged: 0, restored: 0 };
+		const removeStale = this.settings.staleNodeAction === 'remove';
+
+		if (!canvasData.meta) canvasData.meta = {};
+		if (!canvasData.meta.canvasAutoGen) canvasData.meta.canvasAutoGen = {};
+		const state = canvasData.meta.canvasAutoGen;
+		const previouslyFlagged = new Set<string>(state.stale ?? []);
+		const stale = new Set<string>();
+
+		const freshNodeIds = new Set<string>(freshData.nodes.map((n: CanvasNode) => n.id));
+		const freshEdgeIds = new Set<string>(freshData.edges.map((e: CanvasEdge) => e.id));
+
+		// Existing nodes: keep, flag or remove generated nodes that are no longer linked
+		const removedNodeIds = new Set<string>();
+		canvasData.nodes = canvasData.nodes.filter((node: CanvasNode) => {
+			if (!this.isGeneratedNode(node)) return true;
+			if (freshNodeIds.has(node.id)) {
+				if (previouslyFlagged.has(node.id)) {
+					const color = this.getGeneratedColor(canvasData, node);
+					if (color) {
+						node.color = color;
+					} else {
+						delete node.color;
+					}
+					summary.restored++;
+				}
+				return true;
+			}
+			if (removeStale && !this.isNodeCustomized(canvasData, node)) {
+				removedNodeIds.add(node.id);
+				delete state.generated?.[node.id];
+				summary.removed++;
+				return false;
+			}
+			if (this.hasCustomColor(canvasData, node)) {
+				// The user colored this node themselves, leave it alone
+				return true;
+			}
+			if (!previouslyFlagged.has(node.id)) summary.flagged++;
+			node.color = STALE_COLOR;
+			stale.add(node.id);
+			return true;
+		});
+
+		this.forgetGeneratedEdges(canvasData, removedNodeIds);
+
+		// New nodes: add at their generated position, nudged down until they don't overlap anything,
+		// and put notes into their group. Groups are made or grown as their notes are placed.
+		const styling = this.getStoredGenerationOptions(freshData).styling;
+		const existingNodeIds = new Set<string>(canvasData.nodes.map((n: CanvasNode) => n.id));
+		for (const freshNode of freshData.nodes) {
+			if (existingNodeIds.has(freshNode.id)) continue;
+			if (isGroupNode(freshNode) && this.isGeneratedNode(freshNode)) continue;
+			const node = { ...freshNode };
+			while (canvasData.nodes.some((other: CanvasNode) => this.nodesOverlap(node, other))) {
+				node.y += node.height + 80;
+			}
+			const file = isFileNode(node) ? this.app.vault.getAbstractFileByPath(node.file) : null;
+			if (file instanceof TFile) this.placeNodeInGroup(canvasData, node, file, styling);
+			canvasData.nodes.push(node);
+			existingNodeIds.add(node.id);
+			this.recordGeneratedNode(canvasData, node);
+			summary.added++;
+		}
+
+		// Existing edges: drop edges to removed nodes, flag or remove generated edges whose link is gone
+		canvasData.edges = canvasData.edges.filter((edge: CanvasEdge) => {
+			if (removedNodeIds.has(edge.fromNode) || removedNodeIds.has(edge.toNode)) return false;
+			if (!this.isGeneratedEdge(edge)) return true;
+			if (freshEdgeIds.has(edge.id)) {
+				if (previouslyFlagged.has(edge.id)) {
+					const color = this.getGeneratedEdgeColor(canvasData, edge);
+					if (color) {
+						edge.color = color;
+					} else {
+						delete edge.color;
+					}
+					summary.restored++;
+				}
+				return true;
+			}
+			if (removeStale) {
+				delete state.generatedEdges?.[edge.id];
+				summary.removed++;
+				return false;
+			}
+			// Edges the user colored themselves are left alone, weight colors were given by the plugin
+			if (!previouslyFlagged.has(edge.id) && (edge.color ?? '') !== this.getGeneratedEdgeColor(canvasData, edge)) return true;
+			if (!previouslyFlagged.has(edge.id)) summary.flagged++;
+			edge.color = STALE_COLOR;
+			stale.add(edge.id);
+			return true;
+		});
+
+		// New edges between nodes that are on the canvas
+		const existingEdgeIds = new Set<string>(canvasData.edges.map((e: CanvasEdge) => e.id));
+		for (const freshEdge of freshData.edges) {
+			if (existingEdgeIds.has(freshEdge.id)) continue;
+			if (!existingNodeIds.has(freshEdge.fromNode) || !existingNodeIds.has(freshEdge.toNode)) continue;
+			const edge = { ...freshEdge };
+			canvasData.edges.push(edge);
+			this.recordGeneratedEdge(canvasData, edge);
+			summary.added++;
+		}
+
+		state.stale = Array.from(stale);
+		const freshState = freshData.meta?.canvasAutoGen ?? {};
+		state.source = freshState.source;
+		state.target = freshState.target;
+		state.seeds = freshState.seeds;
+		state.seedSource = freshState.seedSource;
+		state.truncated = freshState.truncated;
+		state.version = freshState.version;
+		state.options = freshState.options;
+		canvasData.meta.modified = new Date().toISOString();
+		return summary;
+	}
+
+	nodesOverlap(a: CanvasRect, b: CanvasRect): boolean {
+		return a.x < b.x + b.width && a.x + a.width > b.x && a.y < b.y + b.height && a.y + a.height > b.y;
+	}
+
+	// Add a placeholder text node for every unresolved link of the given file nodes
+	addPlaceholderNodes(canvasData: CanvasData, sourceNodes: CanvasNode[]): CanvasTextNode[] {
+		const added: CanvasTextNode[] = [];
+		if (!this.settings.includeUnresolvedLinks) return added;
+
+		for (const sourceNode of sourceNodes) {
+			if (!isFileNode(sourceNode) || sourceNode.subpath) continue;
+			const unresolved = this.app.metadataCache.unresolvedLinks[sourceNode.file];
+			if (!unresolved) continue;
+
+			for (const linktext of Object.keys(unresolved)) {
+				const placeholderId = this.getPlaceholderId(linktext);
+				if (!canvasData.nodes.some((n: CanvasNode) => n.id === placeholderId)) {
+					const placeholder: CanvasTextNode = {
+						id: placeholderId,
+						type: "text",
+						text: `[[${linktext}]]`,
+						x: sourceNode.x + HORIZONTAL_SPACING,
+						y: sourceNode.y,
+						width: PLACEHOLDER_WIDTH,
+						height: PLACEHOLDER_HEIGHT
+					};
+					while (canvasData.nodes.some((other: CanvasNode) => this.nodesOverlap(placeholder, other))) {
+						placeholder.y += PLACEHOLDER_HEIGHT + 40;
+					}
+					canvasData.nodes.push(placeholder);
+					this.recordGeneratedNode(canvasData, placeholder);
+					added.push(placeholder);
+				}
+
+				const edgeId = this.getEdgeId(sourceNode.id, placeholderId);
+				if (!canvasData.edges.some((e: CanvasEdge) => e.id === edgeId)) {
+					canvasData.edges.push({
+						id: edgeId,
+						fromNode: sourceNode.id,
+						fromSide: "right",
+						toNode: placeholderId,
+						toSide: "left"
+					});
+				}
+			}
+		}
+
+		return added;
+	}
+
+	// Canvas nodes don't carry CSS classes, so placeholders are marked on the live canvas instead
+	markPlaceholderNodes() {
+		this.app.workspace.getLeavesOfType('canvas').forEach(leaf => {
+			const canvas = (leaf.view as CanvasViewLike).canvas;
+			if (!canvas?.nodes) return;
+			canvas.nodes.forEach(node => {
+				const isPlaceholder = typeof node.id === 'string' && node.id.startsWith('placeholder-');
+				node.nodeEl?.toggleClass('canvas-auto-gen-placeholder', isPlaceholder);
+			});
+		});
+	}
+
+	getSelectedCanvasNode(): CanvasNodeLike | null {
+		const view = this.app.workspace.activeLeaf?.view as CanvasViewLike | undefined;
+		const selection = view?.canvas?.selection;
+		if (!selection || selection.size !== 1) return null;
+		return Array.from(selection)[0];
+	}
+
+	async createNoteFromPlaceholder() {
+		const activeFile = (this.app.workspace.activeLeaf?.view as CanvasViewLike | undefined)?.file;
+		const selectedNode = this.getSelectedCanvasNode();
+		if (!(activeFile instanceof TFile) || activeFile.extension !== 'canvas' || !selectedNode) {
+			new Notice('Select a placeholder node on a canvas first.');
+			return;
+		}
+
+		const linktext = this.getPlaceholderLinktext(selectedNode.getData());
+		if (!linktext) {
+			new Notice('The selected node is not an unresolved link placeholder.');
+			return;
+		}
+
+		new TemplateSuggestModal(this.app, this.getTemplateFiles(), async (template) => {
+			try {
+				await this.convertPlaceholderToNote(activeFile, selectedNode.id, linktext, template);
+			} catch (error) {
+				console.error('Error creating note from placeholder:', error);
+				new Notice('Error creating note from placeholder');
+			}
+		}).open();
+	}
+
+	getTemplateFiles(): TFile[] {
+		const folder = normalizePath(this.settings.templateFolder || '/');
+		return this.app.vault.getMarkdownFiles()
+			.filter(file => !this.settings.templateFolder || file.path.startsWith(`${folder}/`))
+			.sort((a, b) => a.path.localeCompare(b.path));
+	}
+
+	async convertPlaceholderToNote(canvasFile: TFile, placeholderId: string, linktext: string, template: TFile | null) {
+		const canvasData = await this.readCanvasData(canvasFile);
+		if (!canvasData) return;
+		if (!canvasData.nodes.some((n: CanvasNode) => n.id === placeholderId)) {
+			new Notice('Placeholder not found in the canvas file.');
+			return;
+		}
+
+		// Create the note where Obsidian would create it when following the link from its source
+		const sourceEdge = canvasData.edges.find((e: CanvasEdge) => e.toNode === placeholderId);
+		const sourceNode = sourceEdge ? canvasData.nodes.find((n: CanvasNode) => n.id === sourceEdge.fromNode) : null;
+		const sourcePath = sourceNode && isFileNode(sourceNode) ? sourceNode.file : canvasFile.path;
+
+		let file = this.app.metadataCache.getFirstLinkpathDest(linktext, sourcePath);
+		if (!file) {
+			const parent = linktext.includes('/') ? null : this.app.fileManager.getNewFileParent(sourcePath);
+			const notePath = normalizePath(parent && !parent.isRoot() ? `${parent.path}/${linktext}.md` : `${linktext}.md`);
+			const content = template ? this.applyTemplate(await this.app.vault.read(template), linktext) : '';
+			file = await this.app.vault.create(notePath, content);
+		}
+		const noteFile = file;
+
+		// Rewire the placeholder to the new file, keeping its position and edges
+		await this.mutateCanvas(canvasFile, `Created note ${noteFile.basename}`, (currentData) => {
+			const index = currentData.nodes.findIndex((n: CanvasNode) => n.id === placeholderId);
+			const placeholder = currentData.nodes[index];
+			if (!placeholder || !isTextNode(placeholder)) return false;
+			// The text goes, any other fields of the placeholder stay on the node
+			const node = {
+				...placeholder,
+				type: 'file',
+				file: noteFile.path,
+				height: Math.max(placeholder.height, NODE_HEIGHT),
+				width: Math.max(placeholder.width, NODE_WIDTH)
+			} as CanvasFileNode & { text?: string };
+			delete node.text;
+			currentData.nodes[index] = node;
+			this.renameGeneratedNode(currentData, node, this.getNodeId(noteFile.path));
+			this.recordGeneratedNode(currentData, node);
+			currentData.meta.modified = new Date().toISOString();
+			return true;
+		});
+		new Notice(`Created ${noteFile.path}`);
+	}
+
+	// Fill in the variables the core Templates plugin supports
+	applyTemplate(template: string, title: string): string {
+		const now = new Date();
+		const pad = (n: number) => (n < 10 ? '0' : '') + n;
+		const date = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+		const time = `${pad(now.getHours())}:${pad(now.getMinutes())}`;
+		return template
+			.replace(/{{\s*title\s*}}/g, title.split('/').pop() ?? title)
+			.replace(/{{\s*date\s*}}/g, date)
+			.replace(/{{\s*time\s*}}/g, time);
+	}
+
+	async applyLiveSyncChanges() {
+		const { changed, renamed, deleted } = this.liveSyncQueue;
+		this.liveSyncQueue = { changed: new Set<string>(), renamed: new Map<string, string>(), deleted: new Set<string>() };
+		if (changed.size + renamed.size + deleted.size === 0) return;
+
+		// Only canvases that are open in a view are kept live
+		const canvasFiles = new Map<string, TFile>();
+		this.app.workspace.getLeavesOfType('canvas').forEach(leaf => {
+			const file = (leaf.view as CanvasViewLike).file;
+			if (file instanceof TFile) {
+				canvasFiles.set(file.path, file);
+			}
+		});
+
+		for (const canvasFile of Array.from(canvasFiles.values())) {
+			try {
+				await this.mutateCanvas(canvasFile, null, async (canvasData) => {
+					// Skip canvases that were not generated by this plugin
+					if (!canvasData.meta.canvasAutoGen) return false;
+
+					let modified = this.applyRenamesToCanvas(canvasData, renamed);
+					modified = this.applyDeletesToCanvas(canvasData, deleted) || modified;
+					const existingEdgeIds = new Set(canvasData.edges.map((e: CanvasEdge) => e.id));
+					// New links don't belong on a path canvas or the overview, refreshing them finds the new paths and clusters
+					if (!canvasData.meta.canvasAutoGen.target && !canvasData.meta.canvasAutoGen.overview) {
+						modified = this.applyLinkChangesToCanvas(canvasData, changed) || modified;
+					}
+					if (!modified) return false;
+
+					const newEdges = canvasData.edges.filter((e: CanvasEdge) => !existingEdgeIds.has(e.id));
+					await this.decorateEdges(canvasData, newEdges, this.getStoredGenerationOptions(canvasData).styling);
+					newEdges.forEach((edge: CanvasEdge) => this.recordGeneratedEdge(canvasData, edge));
+					canvasData.meta.modified = new Date().toISOString();
+					return true;
+				});
+			} catch (error) {
+				console.error(`Error syncing canvas ${canvasFile.path}:`, error);
+			}
+		}
+	}
+
+	applyRenamesToCanvas(canvasData: CanvasData, renamed: Map<string, string>): boolean {
+		let modified = false;
+		// Renames are applied in the order they happened so chained renames end up at the final path
+		for (const [oldPath, newPath] of Array.from(renamed.entries())) {
+			for (const node of canvasData.nodes) {
+				if (!isFileNode(node) || typeof node.file !== 'string') continue;
+
+				let updatedPath: string | null = null;
+				if (node.file === oldPath) {
+					updatedPath = newPath;
+				} else if (node.file.startsWith(`${oldPath}/`)) {
+					// A parent folder was renamed
+					updatedPath = newPath + node.file.slice(oldPath.length);
+				}
+				if (!updatedPath) continue;
+
+				const wasGenerated = this.isGeneratedNode(node);
+				node.file = updatedPath;
+				if (wasGenerated) {
+					this.renameGeneratedNode(canvasData, node, this.getNodeId(updatedPath + (node.subpath ?? '')));
+				}
+				modified = true;
+			}
+
+			// Keep the recorded source and target notes pointing at the renamed notes
+			const state = canvasData.meta.canvasAutoGen;
+			const renamePath = (path: string | undefined) => {
+				if (path === oldPath) return newPath;
+				if (path?.startsWith(`${oldPath}/`)) return newPath + path.slice(oldPath.length);
+				return path;
+			};
+			if (state && (renamePath(state.source) !== state.source || renamePath(state.target) !== state.target)) {
+				state.source = renamePath(state.source);
+				state.target = renamePath(state.target);
+				modified = true;
+			}
 		}
-		
-		// Process forward links (file -> other files)
-		for (const linkedFile of forwardLinks) {
-			// Add connection
-			connections.get(file.path)!.add(linkedFile.path);
-			
-			// Add node if not visited
-			if (!visited.has(linkedFile.path)) {
-				visited.add(linkedFile.path);
-				nodes.push({file: linkedFile, level: currentDepth, isBacklink: false});
-				connections.set(linkedFile.path, new Set<string>());
-				
-				// Recursively explore deeper levels
-				this.exploreAllConnections(linkedFile, maxDepth, currentDepth + 1, visited, nodes, connections);
+		return modified;
+	}
+
+	// Move a generated node to the ID derived from its new path, keeping its edges and bookkeeping intact
+	renameGeneratedNode(canvasData: CanvasData, node: CanvasNode, newId: string) {
+		const oldId = node.id;
+		if (oldId === newId) return;
+		node.id = newId;
+
+		const renamedIds = new Map<string, string>([[oldId, newId]]);
+		for (const edge of canvasData.edges) {
+			if (edge.fromNode !== oldId && edge.toNode !== oldId) continue;
+			const wasGenerated = this.isGeneratedEdge(edge);
+			if (edge.fromNode === oldId) edge.fromNode = newId;
+			if (edge.toNode === oldId) edge.toNode = newId;
+			if (wasGenerated) {
+				const newEdgeId = this.getEdgeId(edge.fromNode, edge.toNode);
+				renamedIds.set(edge.id, newEdgeId);
+				edge.id = newEdgeId;
 			}
 		}
-		
-		// Process backlinks (other files -> file)
-		for (const linkedFile of backlinks) {
-			// Add connection (reverse direction)
-			if (!connections.has(linkedFile.path)) {
-				connections.set(linkedFile.path, new Set<string>());
+
+		const state = canvasData.meta?.canvasAutoGen;
+		if (state?.generated?.[oldId]) {
+			state.generated[newId] = state.generated[oldId];
+			delete state.generated[oldId];
+		}
+		// Deleted edges keep their record too, so the records are moved rather than the edges followed
+		const generatedEdges = state?.generatedEdges;
+		if (generatedEdges) {
+			Object.keys(generatedEdges).forEach(edgeId => {
+				const [fromNode, toNode, color] = generatedEdges[edgeId].split(',');
+				if (fromNode !== oldId && toNode !== oldId) return;
+				const newFromNode = fromNode === oldId ? newId : fromNode;
+				const newToNode = toNode === oldId ? newId : toNode;
+				delete generatedEdges[edgeId];
+				generatedEdges[this.getEdgeId(newFromNode, newToNode)] = [newFromNode, newToNode, color].join(',');
+			});
+		}
+		if (state?.stale) {
+			state.stale = state.stale.map((id: string) => renamedIds.get(id) ?? id);
+		}
+	}
+
+	applyDeletesToCanvas(canvasData: CanvasData, deleted: Set<string>): boolean {
+		if (deleted.size === 0) return false;
+		const deletedPaths = Array.from(deleted);
+
+		const removedIds = new Set<string>();
+		canvasData.nodes = canvasData.nodes.filter((node: CanvasNode) => {
+			// Placeholders are generated too but don't stand for a file
+			if (!this.isGeneratedNode(node) || !isFileNode(node)) return true;
+			const isDeleted = deletedPaths.some(path => node.file === path || node.file.startsWith(`${path}/`));
+			// The file may have been recreated before the batch was flushed
+			if (!isDeleted || this.app.vault.getAbstractFileByPath(node.file) instanceof TFile) return true;
+			removedIds.add(node.id);
+			delete canvasData.meta?.canvasAutoGen?.generated?.[node.id];
+			return false;
+		});
+		canvasData.edges = canvasData.edges.filter((edge: CanvasEdge) => !removedIds.has(edge.fromNode) && !removedIds.has(edge.toNode));
+		this.forgetGeneratedEdges(canvasData, removedIds);
+
+		return removedIds.size > 0;
+	}
+
+	applyLinkChangesToCanvas(canvasData: CanvasData, changed: Set<string>): boolean {
+		const options = this.getStoredGenerationOptions(canvasData);
+		let modified = false;
+
+		for (const path of Array.from(changed)) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			const focusNode = canvasData.nodes.find((n: CanvasNode) => isFileNode(n) && n.file === path);
+			if (!(file instanceof TFile) || !focusNode) continue;
+
+			const forwardLinks = this.getForwardLinks(file);
+			const linkedPaths = new Set(forwardLinks.map(linkedFile => linkedFile.path));
+			const unresolved = this.app.metadataCache.unresolvedLinks[file.path] ?? {};
+
+			// Drop generated edges for links that no longer exist
+			const edgeCount = canvasData.edges.length;
+			canvasData.edges = canvasData.edges.filter((edge: CanvasEdge) => {
+				if (edge.fromNode !== focusNode.id || !this.isGeneratedEdge(edge)) return true;
+				const target = canvasData.nodes.find((n: CanvasNode) => n.id === edge.toNode);
+				if (!target) return true;
+				const placeholderLinktext = this.getPlaceholderLinktext(target);
+				if (placeholderLinktext !== null) return placeholderLinktext in unresolved;
+				return !isFileNode(target) || linkedPaths.has(target.file);
+			});
+			modified = modified || canvasData.edges.length !== edgeCount;
+
+			// Connect new links to notes that are already on the canvas
+			for (const node of canvasData.nodes) {
+				if (node === focusNode || !isFileNode(node) || !linkedPaths.has(node.file)) continue;
+				const hasEdge = canvasData.edges.some((edge: CanvasEdge) => edge.fromNode === focusNode.id && edge.toNode === node.id);
+				if (!hasEdge) {
+					canvasData.edges.push({
+						id: this.getEdgeId(focusNode.id, node.id),
+						fromNode: focusNode.id,
+						fromSide: "right",
+						toNode: node.id,
+						toSide: "left"
+					});
+					modified = true;
+				}
 			}
-			connections.get(linkedFile.path)!.add(file.path);
-			
-			// Add node if not visited
-			if (!visited.has(linkedFile.path)) {
-				visited.add(linkedFile.path);
-				nodes.push({file: linkedFile, level: currentDepth, isBacklink: true});
-				
-				// Recursively explore deeper levels
-				this.exploreAllConnections(linkedFile, maxDepth, currentDepth + 1, visited, nodes, connections);
+
+			// Add notes that are new neighbours and pass the filters
+			const existingPaths = new Set(canvasData.nodes.filter(isFileNode).map(n => n.file));
+			const nodesToAdd = this.getFilteredLinks(file, 'right', options.filters).filter(linkedFile => !existingPaths.has(linkedFile.path));
+			if (nodesToAdd.length > 0) {
+				this.addNodesNextTo(canvasData, focusNode, nodesToAdd, 'right', options.styling);
+				modified = true;
+			}
+			if (this.addPlaceholderNodes(canvasData, [focusNode]).length > 0) {
+				modified = true;
 			}
 		}
+
+		return modified;
 	}
 
-	private exploreLinks(
-		file: TFile, 
-		maxDepth: number, 
-		currentDepth: number, 
-		visited: Set<string>, 
-		nodes: Array<{file: TFile, level: number, isBacklink: boolean}>, 
-		isBacklink: boolean
-	) {
-		if (currentDepth > maxDepth) return;
-		
-		const links = isBacklink ? this.getBacklinks(file) : this.getForwardLinks(file);
-		
-		for (const linkedFile of links) {
-			if (!visited.has(linkedFile.path)) {
-				visited.add(linkedFile.path);
-				nodes.push({file: linkedFile, level: currentDepth, isBacklink: isBacklink});
-				
-				// Recursively explore deeper levels
-				this.exploreLinks(linkedFile, maxDepth, currentDepth + 1, visited, nodes, isBacklink);
+	private setupNodeExpansion() {
+		// Right-click a note on a canvas to expand or collapse just that note
+		this.registerEvent(
+			this.app.workspace.on('canvas:node-menu', (menu: Menu, node: CanvasNodeLike) => {
+				const canvasFile = (this.app.workspace.activeLeaf?.view as CanvasViewLike | undefined)?.file;
+				const data = node.getData();
+				if (!(canvasFile instanceof TFile) || canvasFile.extension !== 'canvas' || !isFileNode(data)) return;
+
+				const levels = Math.max(this.settings.linkDepth, this.settings.backlinkDepth, 1);
+				menu.addSeparator();
+				menu.addItem(item => item
+					.setTitle('Expand backlinks')
+					.setIcon('arrow-left')
+					.onClick(() => this.expandCanvasNode(canvasFile, data.id, 'left')));
+				menu.addItem(item => item
+					.setTitle('Expand forward links')
+					.setIcon('arrow-right')
+					.onClick(() => this.expandCanvasNode(canvasFile, data.id, 'right')));
+				menu.addItem(item => item
+					.setTitle(`Expand both (${levels} ${levels === 1 ? 'level' : 'levels'})`)
+					.setIcon('arrow-left-right')
+					.onClick(() => this.expandCanvasNode(canvasFile, data.id, 'both', levels)));
+				menu.addItem(item => item
+					.setTitle('Collapse')
+					.setIcon('minimize-2')
+					.onClick(() => this.collapseCanvasNode(canvasFile, data.id)));
+			})
+		);
+
+		// Hover handles on the left and right edge of a note expand only that note
+		this.registerDomEvent(document, 'mouseover', (evt: MouseEvent) => {
+			if (!this.settings.showExpandHandles) return;
+			const nodeEl = (evt.target as HTMLElement).closest?.('.canvas-node') as HTMLElement | null;
+			if (!nodeEl || nodeEl.querySelector('.canvas-auto-gen-handle')) return;
+
+			for (const leaf of this.app.workspace.getLeavesOfType('canvas')) {
+				const view = leaf.view as CanvasViewLike;
+				if (!view.canvas?.nodes || !(view.file instanceof TFile) || !view.containerEl.contains(nodeEl)) continue;
+				const node = Array.from(view.canvas.nodes.values()).find(n => n.nodeEl === nodeEl);
+				const data = node?.getData();
+				if (!data || !isFileNode(data)) return;
+
+				const canvasFile: TFile = view.file;
+				(['left', 'right'] as const).forEach(direction => {
+					const handle = nodeEl.createDiv({
+						cls: `canvas-auto-gen-handle is-${direction}`,
+						attr: { 'aria-label': direction === 'left' ? 'Expand backlinks' : 'Expand forward links' }
+					});
+					handle.setText(direction === 'left' ? '‹' : '›');
+					// Keep the canvas from starting a drag or selection from the handle
+					handle.addEventListener('pointerdown', e => e.stopPropagation());
+					handle.addEventListener('click', e => {
+						e.stopPropagation();
+						this.expandCanvasNode(canvasFile, data.id, direction);
+					});
+				});
+				return;
 			}
-		}
+		});
+	}
+
+	// Handles are only added while the setting is on, turning it off takes away the ones already shown
+	removeExpandHandles() {
+		document.querySelectorAll('.canvas-auto-gen-handle').forEach(handle => handle.remove());
 	}
 
-	async generateCanvasForFile(file: TFile) {
+	private async expandCanvasInDirection(direction: 'left' | 'right') {
 		try {
-			// Create a new canvas file
-			const canvasFileName = `${file.basename}_canvas`;
-			// Normalize path to avoid leading or double slashes
-			const parentPath = file.parent?.path ?? '';
-			const normalizedDir = parentPath.replace(/\\+/g, '/').replace(/^\/+|\/+$|(^\.$)/g, '');
-			const canvasPath = normalizedDir ? `${normalizedDir}/${canvasFileName}.canvas` : `${canvasFileName}.canvas`;
-			
-			// Check if canvas already exists
-			const existingCanvas = this.app.vault.getAbstractFileByPath(canvasPath);
-			if (existingCanvas) {
-				if (this.settings.autoOpenCanvas) {
-					new Notice(`Canvas already exists: ${canvasFileName}.canvas - Opening in new tab`);
-					// Open the existing canvas in a new tab
-					await this.app.workspace.openLinkText(canvasPath, '', false);
-				} else {
-					new Notice(`Canvas already exists: ${canvasFileName}.canvas`);
-				}
+			const canvasFile = this.getActiveCanvasFile();
+			if (!canvasFile) {
+				new Notice('Please open a canvas to expand it.');
 				return;
 			}
 
-			// Create canvas content
-			const canvasContent = this.createCanvasContent(file);
-			
-			// Create the canvas file
-			await this.app.vault.create(canvasPath, canvasContent);
-			
-			// Open the new canvas if setting is enabled
-			if (this.settings.autoOpenCanvas) {
-				await this.app.workspace.openLinkText(canvasPath, '', false);
-			}
-			
-			new Notice(`Canvas generated: ${canvasFileName}.canvas`);
-		} catch (error) {
-			console.error('Error generating canvas:', error);
-			new Notice('Error generating canvas');
-		}
+			const added = await this.expandAllCanvasNodes(canvasFile, [direction], `Expanded all ${direction === 'left' ? 'backlinks' : 'forward links'}`);
+			if (added > 0) {
+				new Notice(`Canvas expanded ${direction}!`);
+			} else {
+				new Notice('No new connections found to expand the canvas.');
+			}
+		} catch (error) {
+			console.error('Error expanding canvas:', error);
+			new Notice('Error expanding canvas');
+		}
+	}
+}
+
+// One line summary of what a profile changes, for the profile picker and the settings
+function describeProfile(profile: GenerationProfile): string {
+	const parts: string[] = [];
+	if (profile.direction === 'outgoing') parts.push('downstream only');
+	if (profile.direction === 'incoming') parts.push('upstream only');
+	if (profile.direction === 'both') parts.push('links and backlinks');
+	if (profile.backlinkDepth !== undefined && profile.direction !== 'outgoing') parts.push(`backlink depth ${profile.backlinkDepth}`);
+	if (profile.forwardDepth !== undefined && profile.direction !== 'incoming') parts.push(`forward link depth ${profile.forwardDepth}`);
+	const engine = LAYOUT_ENGINES.find(candidate => candidate.id === profile.layout);
+	if (engine) parts.push(`${engine.name.toLowerCase()} layout`);
+	if (profile.filters) parts.push('own filters');
+	if (profile.styling) parts.push('own styling');
+	if (profile.outputFolder) parts.push(`saved in ${profile.outputFolder}`);
+	if (profile.canvasNameTemplate) parts.push(`named "${profile.canvasNameTemplate}"`);
+	const summary = parts.join(', ') || 'current settings';
+	return summary.charAt(0).toUpperCase() + summary.slice(1);
+}
+
+type FilterRuleKey = 'includeFolders' | 'excludeFolders' | 'includeTags' | 'excludeTags' | 'propertyConditions';
+
+// Render editors for a set of traversal filters, used by the settings tab and the per-generation modal
+function renderFilterSettings(containerEl: HTMLElement, filters: TraversalFilters, onChange: () => Promise<void> | void) {
+	const ruleSettings: Array<{key: FilterRuleKey, name: string, desc: string, placeholder: string}> = [
+		{ key: 'includeFolders', name: 'Include folders', desc: 'Only notes in these folders are drawn (one folder or glob per line, empty for all)', placeholder: 'Projects/**' },
+		{ key: 'excludeFolders', name: 'Exclude folders', desc: 'Notes in these folders are left out (one folder or glob per line)', placeholder: 'Templates\nDaily/*' },
+		{ key: 'includeTags', name: 'Include tags', desc: 'Only notes with one of these tags are drawn (one per line, empty for all)', placeholder: 'project' },
+		{ key: 'excludeTags', name: 'Exclude tags', desc: 'Notes with any of these tags are left out (one per line)', placeholder: 'template' },
+		{ key: 'propertyConditions', name: 'Frontmatter conditions', desc: 'Every condition must hold: key = value, key != value, key (is set) or !key (is not set)', placeholder: 'status != archived' }
+	];
+
+	ruleSettings.forEach(({key, name, desc, placeholder}) => {
+		new Setting(containerEl)
+			.setName(name)
+			.setDesc(desc)
+			.addTextArea(text => text
+				.setPlaceholder(placeholder)
+				.setValue(filters[key].join('\n'))
+				.onChange(async (value) => {
+					filters[key] = parseRuleLines(value);
+					await onChange();
+				}));
+	});
+
+	new Setting(containerEl)
+		.setName('Traverse excluded notes')
+		.setDesc('Follow links through excluded notes without drawing them, instead of stopping there')
+		.addToggle(toggle => toggle
+			.setValue(filters.traverseExcluded)
+			.onChange(async (value) => {
+				filters.traverseExcluded = value;
+				await onChange();
+			}));
+}
+
+class FilterModal extends Modal {
+	filters: TraversalFilters;
+	onSubmit: (filters: TraversalFilters) => void;
+
+	constructor(app: App, filters: TraversalFilters, onSubmit: (filters: TraversalFilters) => void) {
+		super(app);
+		this.filters = { ...filters };
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		contentEl.createEl('h3', {text: 'Filters for this canvas'});
+
+		renderFilterSettings(contentEl, this.filters, () => {});
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Generate')
+				.setCta()
+				.onClick(() => {
+					this.close();
+					this.onSubmit(this.filters);
+				}));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+class CanvasPreviewModal extends Modal {
+	plugin: CanvasAutoGenPlugin;
+	file: TFile;
+	options: GenerationOptions;
+	private previewEl: HTMLElement;
+	// Only the latest of several overlapping preview runs is shown
+	private run = 0;
+	private requestPreview = debounce(() => this.updatePreview(), 300, true);
+
+	constructor(app: App, plugin: CanvasAutoGenPlugin, file: TFile, options: GenerationOptions) {
+		super(app);
+		this.plugin = plugin;
+		this.file = file;
+		this.options = { ...options, filters: { ...options.filters } };
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		contentEl.createEl('h3', {text: `Preview canvas for ${this.file.basename}`});
+
+		new Setting(contentEl)
+			.setName('Backlink depth')
+			.addSlider(slider => slider
+				.setLimits(0, 5, 1)
+				.setValue(this.options.backlinkDepth)
+				.setDynamicTooltip()
+				.onChange((value) => {
+					this.options.backlinkDepth = value;
+					this.requestPreview();
+				}));
+
+		new Setting(contentEl)
+			.setName('Forward link depth')
+			.addSlider(slider => slider
+				.setLimits(0, 5, 1)
+				.setValue(this.options.forwardDepth)
+				.setDynamicTooltip()
+				.onChange((value) => {
+					this.options.forwardDepth = value;
+					this.requestPreview();
+				}));
+
+		new Setting(contentEl)
+			.setName('Link direction')
+			.addDropdown(dropdown => {
+				LINK_DIRECTIONS.forEach(direction => dropdown.addOption(direction.id, direction.name));
+				dropdown
+					.setValue(this.options.direction)
+					.onChange((value) => {
+						this.options.direction = value as LinkDirection;
+						this.requestPreview();
+					});
+			});
+
+		const filtersEl = contentEl.createEl('details');
+		filtersEl.createEl('summary', {text: 'Filters'});
+		renderFilterSettings(filtersEl, this.options.filters, () => {
+			this.requestPreview();
+		});
+
+		this.previewEl = contentEl.createDiv({cls: 'canvas-auto-gen-preview'});
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+			.addButton(button => button
+				.setButtonText('Generate')
+				.setCta()
+				.onClick(() => {
+					this.close();
+					this.plugin.generateCanvasForFile(this.file, this.options);
+				}));
+
+		this.updatePreview();
+	}
+
+	async updatePreview() {
+		const run = ++this.run;
+		this.previewEl.empty();
+		this.previewEl.createEl('p', {text: 'Collecting notes...'});
+
+		let preview: CanvasPreview;
+		try {
+			preview = await this.plugin.buildCanvasPreview(this.file, this.options);
+		} catch (error) {
+			console.error('Error previewing canvas:', error);
+			if (run === this.run) this.previewEl.setText('Error previewing canvas');
+			return;
+		}
+		if (run !== this.run) return;
+
+		const { levels, edgeCount, topNotes } = summarizePreview(preview);
+		const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+		this.previewEl.empty();
+		this.previewEl.createEl('p', {text: `${plural(preview.nodes.length, 'note')} and ${plural(edgeCount, 'link')}`});
+		if (preview.truncated) {
+			this.previewEl.createEl('p', {
+				cls: 'mod-warning',
+				text: `Stopped at the node limit of ${this.plugin.settings.maxCanvasNodes} notes, the canvas would leave notes out.`
+			});
+		}
+
+		if (levels.length > 0) {
+			const table = this.previewEl.createEl('table', {cls: 'canvas-auto-gen-preview-levels'});
+			const head = table.createEl('tr');
+			['Level', 'Backlinks', 'Forward links'].forEach(text => head.createEl('th', {text}));
+			levels.forEach(row => {
+				const tr = table.createEl('tr');
+				tr.createEl('td', {text: String(row.level)});
+				tr.createEl('td', {text: `${plural(row.backlinkNotes, 'note')}, ${plural(row.backlinkEdges, 'link')}`});
+				tr.createEl('td', {text: `${plural(row.forwardNotes, 'note')}, ${plural(row.forwardEdges, 'link')}`});
+			});
+		}
+
+		if (topNotes.length > 0) {
+			this.previewEl.createEl('p', {text: 'Most connected notes'});
+			const list = this.previewEl.createEl('ul');
+			topNotes.forEach(({file, degree}) => list.createEl('li', {text: `${file.basename} (${plural(degree, 'link')})`}));
+		}
+
+		renderLayoutThumbnail(this.previewEl, preview);
+	}
+
+	onClose() {
+		// A preview still running is dropped
+		this.run++;
+		this.contentEl.empty();
+	}
+}
+
+class EdgeSyncModal extends Modal {
+	heading: string;
+	additions: EdgeLink[];
+	removals: EdgeLink[];
+	onSubmit: (selected: EdgeLink[]) => void;
+
+	constructor(app: App, heading: string, additions: EdgeLink[], removals: EdgeLink[], onSubmit: (selected: EdgeLink[]) => void) {
+		super(app);
+		this.heading = heading;
+		this.additions = additions;
+		this.removals = removals;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		contentEl.createEl('h3', {text: 'Sync edges to notes'});
+		const describe = (link: EdgeLink) => `${link.source.basename} → ${link.target.basename}${link.subpath}`;
+
+		const selected = new Set<EdgeLink>(this.additions);
+		if (this.additions.length > 0) {
+			contentEl.createEl('p', {text: `These edges have no link in their note yet. Checked links are added under "${this.heading}".`});
+			this.additions.forEach(link => {
+				new Setting(contentEl)
+					.setName(describe(link))
+					.setDesc(link.source.path)
+					.addToggle(toggle => toggle
+						.setValue(true)
+						.onChange(value => {
+							if (value) selected.add(link);
+							else selected.delete(link);
+						}));
+			});
+		}
+
+		// Removed edges are only reported, links are never deleted from notes
+		if (this.removals.length > 0) {
+			contentEl.createEl('h4', {text: 'Links without an edge'});
+			contentEl.createEl('p', {text: 'The edges for these links were deleted from the canvas. Remove the links by hand if they are no longer needed.'});
+			this.removals.forEach(link => {
+				new Setting(contentEl)
+					.setName(describe(link))
+					.setDesc(link.source.path);
+			});
+		}
+
+		if (this.additions.length > 0) {
+			new Setting(contentEl)
+				.addButton(button => button
+					.setButtonText('Add links')
+					.setCta()
+					.onClick(() => {
+						this.close();
+						this.onSubmit(this.additions.filter(link => selected.has(link)));
+					}));
+		}
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+class ConfirmModal extends Modal {
+	title: string;
+	message: string;
+	confirmText: string;
+	onResult: (confirmed: boolean) => void;
+	private answered = false;
+
+	constructor(app: App, title: string, message: string, confirmText: string, onResult: (confirmed: boolean) => void) {
+		super(app);
+		this.title = title;
+		this.message = message;
+		this.confirmText = confirmText;
+		this.onResult = onResult;
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		contentEl.createEl('h3', {text: this.title});
+		contentEl.createEl('p', {text: this.message});
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+			.addButton(button => button
+				.setButtonText(this.confirmText)
+				.setCta()
+				.onClick(() => {
+					this.answered = true;
+					this.close();
+					this.onResult(true);
+				}));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		// Closing the modal any other way is a cancel
+		if (!this.answered) this.onResult(false);
+	}
+}
+
+class NoteSuggestModal extends FuzzySuggestModal<TFile> {
+	notes: TFile[];
+	onChoose: (note: TFile) => void;
+
+	constructor(app: App, notes: TFile[], placeholder: string, onChoose: (note: TFile) => void) {
+		super(app);
+		this.notes = notes;
+		this.onChoose = onChoose;
+		this.setPlaceholder(placeholder);
+	}
+
+	getItems(): TFile[] {
+		return this.notes;
+	}
+
+	getItemText(note: TFile): string {
+		return note.path;
+	}
+
+	onChooseItem(note: TFile, evt: MouseEvent | KeyboardEvent) {
+		this.onChoose(note);
+	}
+}
+
+class FolderSuggestModal extends FuzzySuggestModal<TFolder> {
+	folders: TFolder[];
+	onChoose: (folder: TFolder) => void;
+
+	constructor(app: App, folders: TFolder[], onChoose: (folder: TFolder) => void) {
+		super(app);
+		this.folders = folders;
+		this.onChoose = onChoose;
+		this.setPlaceholder('Choose a folder to start the canvas from');
+	}
+
+	getItems(): TFolder[] {
+		return this.folders;
+	}
+
+	getItemText(folder: TFolder): string {
+		return folder.isRoot() ? '/' : folder.path;
+	}
+
+	onChooseItem(folder: TFolder, evt: MouseEvent | KeyboardEvent) {
+		this.onChoose(folder);
+	}
+}
+
+class TagSuggestModal extends FuzzySuggestModal<string> {
+	tags: string[];
+	onChoose: (tag: string) => void;
+
+	constructor(app: App, tags: string[], onChoose: (tag: string) => void) {
+		super(app);
+		this.tags = tags;
+		this.onChoose = onChoose;
+		this.setPlaceholder('Choose a tag to start the canvas from');
+	}
+
+	getItems(): string[] {
+		return this.tags;
+	}
+
+	getItemText(tag: string): string {
+		return tag;
+	}
+
+	onChooseItem(tag: string, evt: MouseEvent | KeyboardEvent) {
+		this.onChoose(tag);
+	}
+}
+
+class SeedQueryModal extends Modal {
+	query = '';
+	onSubmit: (query: string) => void;
+
+	constructor(app: App, onSubmit: (query: string) => void) {
+		super(app);
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		contentEl.createEl('h3', {text: 'Start a canvas from a search'});
+
+		const submit = () => {
+			if (!this.query.trim()) return;
+			this.close();
+			this.onSubmit(this.query.trim());
+		};
+
+		new Setting(contentEl)
+			.setName('Query')
+			.setDesc('Every term must match: tag:#project, path:Work/, file:meeting or any part of the path')
+			.addText(text => {
+				text
+					.setPlaceholder('tag:#project path:Work/')
+					.onChange(value => this.query = value);
+				text.inputEl.addEventListener('keydown', (evt: KeyboardEvent) => {
+					if (evt.key === 'Enter') submit();
+				});
+			});
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Generate')
+				.setCta()
+				.onClick(submit));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+class TemplateSuggestModal extends FuzzySuggestModal<TFile | null> {
+	templates: TFile[];
+	onChoose: (template: TFile | null) => void;
+
+	constructor(app: App, templates: TFile[], onChoose: (template: TFile | null) => void) {
+		super(app);
+		this.templates = templates;
+		this.onChoose = onChoose;
+		this.setPlaceholder('Choose a template for the new note');
+	}
+
+	getItems(): Array<TFile | null> {
+		return [null, ...this.templates];
+	}
+
+	getItemText(template: TFile | null): string {
+		return template ? template.path : 'Blank note';
+	}
+
+	onChooseItem(template: TFile | null, evt: MouseEvent | KeyboardEvent) {
+		this.onChoose(template);
+	}
+}
+
+class LayoutSuggestModal extends SuggestModal<LayoutEngine> {
+	onChoose: (engine: LayoutEngine) => void;
+
+	constructor(app: App, onChoose: (engine: LayoutEngine) => void) {
+		super(app);
+		this.onChoose = onChoose;
+		this.setPlaceholder('Choose a layout for the canvas');
+	}
+
+	getSuggestions(query: string): LayoutEngine[] {
+		const lowerQuery = query.toLowerCase();
+		return LAYOUT_ENGINES.filter(engine => engine.name.toLowerCase().includes(lowerQuery));
+	}
+
+	renderSuggestion(engine: LayoutEngine, el: HTMLElement) {
+		el.createEl('div', {text: engine.name});
+		el.createEl('small', {text: engine.description});
+	}
+
+	onChooseSuggestion(engine: LayoutEngine, evt: MouseEvent | KeyboardEvent) {
+		this.onChoose(engine);
+	}
+}
+
+class ProfileSuggestModal extends SuggestModal<GenerationProfile> {
+	profiles: GenerationProfile[];
+	onChoose: (profile: GenerationProfile) => void;
+
+	constructor(app: App, profiles: GenerationProfile[], onChoose: (profile: GenerationProfile) => void) {
+		super(app);
+		this.profiles = profiles;
+		this.onChoose = onChoose;
+		this.setPlaceholder('Choose a profile for the canvas');
+	}
+
+	getSuggestions(query: string): GenerationProfile[] {
+		const lowerQuery = query.toLowerCase();
+		return this.profiles.filter(profile => profile.name.toLowerCase().includes(lowerQuery));
+	}
+
+	renderSuggestion(profile: GenerationProfile, el: HTMLElement) {
+		el.createEl('div', {text: profile.name});
+		el.createEl('small', {text: describeProfile(profile)});
+	}
+
+	onChooseSuggestion(profile: GenerationProfile, evt: MouseEvent | KeyboardEvent) {
+		this.onChoose(profile);
+	}
+}
+
+class ExportFormatSuggestModal extends SuggestModal<ExportFormat> {
+	onChoose: (format: ExportFormat) => void;
+
+	constructor(app: App, onChoose: (format: ExportFormat) => void) {
+		super(app);
+		this.onChoose = onChoose;
+		this.setPlaceholder('Choose a format to export the graph to');
 	}
 
-	private setupAutomaticExpansion() {
-		// Add keyboard shortcuts for quick expansion
-		this.addCommand({
-			id: 'expand-canvas-left',
-			name: 'Expand Canvas Left',
-			callback: () => {
-				this.expandCanvasInDirection('left');
-			}
-		});
+	getSuggestions(query: string): ExportFormat[] {
+		const lowerQuery = query.toLowerCase();
+		return EXPORT_FORMATS.filter(format => format.name.toLowerCase().includes(lowerQuery));
+	}
 
-		this.addCommand({
-			id: 'expand-canvas-right',
-			name: 'Expand Canvas Right',
-			callback: () => {
-				this.expandCanvasInDirection('right');
-			}
-		});
+	renderSuggestion(format: ExportFormat, el: HTMLElement) {
+		el.createEl('div', {text: format.name});
+		el.createEl('small', {text: format.description});
+	}
 
-		// Add mousedown listener for automatic expansion when clicking on canvas nodes
-		this.registerDomEvent(document, 'mousedown', (evt: MouseEvent) => {
-			if (!this.settings.autoExpandCanvas) return;
-			
-			const activeLeaf = this.app.workspace.activeLeaf;
-			if (!activeLeaf || !activeLeaf.view) return;
-			
-			const activeFile = (activeLeaf.view as any).file;
-			if (!activeFile || !activeFile.path.endsWith('.canvas')) return;
-			
-			// Check if we clicked on a canvas node
-			const clickedElement = evt.target as HTMLElement;
-			
-			// Look for canvas node elements more specifically
-			const canvasNode = clickedElement.closest('[data-node-id]') || 
-							  clickedElement.closest('.canvas-node') ||
-							  clickedElement.closest('.canvas-node-content') ||
-							  clickedElement.closest('.canvas-file-node') ||
-							  clickedElement.closest('.canvas-file-node-content');
-			
-			if (canvasNode) {
-				console.log('Canvas node clicked, checking position...');
-				
-				// Prevent the default canvas behavior that might trigger generation
-				evt.preventDefault();
-				evt.stopPropagation();
-				
-				// Debug: Show available elements in the container
-				console.log('Available elements in container:', activeLeaf.view.containerEl.querySelectorAll('*').length);
-				console.log('Container classes:', activeLeaf.view.containerEl.className);
-				
-				// Get the node's position relative to the canvas center
-				const canvasElement = activeLeaf.view.containerEl.querySelector('.canvas-view') ||
-									activeLeaf.view.containerEl.querySelector('.canvas') ||
-									activeLeaf.view.containerEl.querySelector('[data-type="canvas"]') ||
-									activeLeaf.view.containerEl.querySelector('.workspace-leaf-content') ||
-									activeLeaf.view.containerEl;
-				
-				if (!canvasElement) {
-					console.log('Could not find canvas element');
-					return;
-				}
-				
-				const canvasRect = canvasElement.getBoundingClientRect();
-				const nodeRect = canvasNode.getBoundingClientRect();
-				
-				// Calculate if the clicked node is to the left or right of the canvas center
-				const canvasCenterX = canvasRect.left + canvasRect.width / 2;
-				const nodeCenterX = nodeRect.left + nodeRect.width / 2;
-				
-				console.log(`Canvas center: ${canvasCenterX}, Node center: ${nodeCenterX}`);
-				console.log(`Canvas rect:`, canvasRect);
-				console.log(`Node rect:`, nodeRect);
-				
-				if (nodeCenterX < canvasCenterX - 50) {
-					// Node is to the left, expand left
-					console.log('Clicked on left node, expanding left');
-					// Use setTimeout to prevent conflicts with other handlers
-					setTimeout(() => {
-						console.log('Calling expandCanvasInDirection left');
-						this.expandCanvasInDirection('left');
-					}, 100);
-				} else if (nodeCenterX > canvasCenterX + 50) {
-					// Node is to the right, expand right
-					console.log('Clicked on right node, expanding right');
-					// Use setTimeout to prevent conflicts with other handlers
-					setTimeout(() => {
-						console.log('Calling expandCanvasInDirection right');
-						this.expandCanvasInDirection('right');
-					}, 100);
-				} else {
-					console.log('Node is in center area, no expansion needed');
-				}
-				
-				// Return false to prevent further event handling
-				return false;
-			}
-		});
+	onChooseSuggestion(format: ExportFormat, evt: MouseEvent | KeyboardEvent) {
+		this.onChoose(format);
 	}
+}
 
-	private async expandCanvasInDirection(direction: 'left' | 'right') {
-		console.log(`expandCanvasInDirection called with direction: ${direction}`);
-		try {
-			const activeLeaf = this.app.workspace.activeLeaf;
-			if (!activeLeaf || !activeLeaf.view) {
-				console.log('No active leaf or view');
-				return;
-			}
-			
-			const activeFile = (activeLeaf.view as any).file;
-			if (!activeFile || !activeFile.path.endsWith('.canvas')) {
-				console.log('Active file is not a canvas');
-				return;
-			}
+class PruneDistanceModal extends SuggestModal<number> {
+	removedCounts: number[];
+	onChoose: (keep: number) => void;
 
-			const canvasFile = activeFile;
-			console.log(`Canvas file: ${canvasFile.path}`);
-			
-			const canvasName = canvasFile.basename;
-			const originalNoteName = canvasName.replace('_canvas', '');
-			console.log(`Original note name: ${originalNoteName}`);
-			
-			const originalNote = this.app.vault.getAbstractFileByPath(`${originalNoteName}.md`);
-			if (!originalNote || !(originalNote instanceof TFile)) {
-				console.log('Could not find original note');
-				return;
-			}
+	constructor(app: App, removedCounts: number[], onChoose: (keep: number) => void) {
+		super(app);
+		this.removedCounts = removedCounts;
+		this.onChoose = onChoose;
+		this.setPlaceholder('Keep notes within how many links of the center note?');
+	}
 
-			// Read current canvas content
-			const currentContent = await this.app.vault.read(canvasFile);
-			let canvasData;
-			try {
-				canvasData = JSON.parse(currentContent);
-				console.log(`Canvas has ${canvasData.nodes.length} nodes`);
-			} catch (e) {
-				console.log('Failed to parse canvas data:', e);
-				return;
-			}
+	getSuggestions(query: string): number[] {
+		const distances: number[] = [];
+		this.removedCounts.forEach((count, keep) => {
+			if (String(keep).startsWith(query.trim())) distances.push(keep);
+		});
+		return distances;
+	}
 
-			// Get all existing file paths in the canvas
-			const existingPaths = new Set(canvasData.nodes.map((n: any) => n.file));
-			console.log(`Existing paths:`, Array.from(existingPaths));
-			let expanded = false;
+	renderSuggestion(keep: number, el: HTMLElement) {
+		el.createEl('div', {text: `Keep notes within ${keep} ${keep === 1 ? 'link' : 'links'}`});
+		el.createEl('small', {text: `Removes ${this.removedCounts[keep]} nodes`});
+	}
 
-			// Find nodes that can expand in the specified direction
-			for (const node of canvasData.nodes) {
-				const nodeNote = this.app.vault.getAbstractFileByPath(node.file);
-				if (!nodeNote || !(nodeNote instanceof TFile)) {
-					console.log(`Could not find note for node: ${node.file}`);
-					continue;
-				}
+	onChooseSuggestion(keep: number, evt: MouseEvent | KeyboardEvent) {
+		this.onChoose(keep);
+	}
+}
 
-				console.log(`Checking node: ${nodeNote.basename}`);
+class CanvasHistoryModal extends SuggestModal<CanvasHistoryEntry> {
+	entries: CanvasHistoryEntry[];
+	onChoose: (steps: number) => void;
 
-				if (direction === 'right') {
-					// Get forward links from this node
-					const forwardLinks = this.getForwardLinks(nodeNote);
-					console.log(`Forward links from ${nodeNote.basename}:`, forwardLinks.map(f => f.basename));
-					const newForwardLinks = forwardLinks.filter(link => !existingPaths.has(link.path));
-					console.log(`New forward links:`, newForwardLinks.map(f => f.basename));
-					
-					if (newForwardLinks.length > 0) {
-						console.log(`Expanding right from ${nodeNote.basename} with ${newForwardLinks.length} new links`);
-						await this.expandCanvas(canvasFile, nodeNote, 'right');
-						expanded = true;
-						// Update existing paths after expansion
-						const updatedContent = await this.app.vault.read(canvasFile);
-						const updatedData = JSON.parse(updatedContent);
-						updatedData.nodes.forEach((n: any) => existingPaths.add(n.file));
-					}
-				} else {
-					// Get backlinks to this node
-					const backlinks = this.getBacklinks(nodeNote);
-					console.log(`Backlinks to ${nodeNote.basename}:`, backlinks.map(f => f.basename));
-					const newBacklinks = backlinks.filter(link => !existingPaths.has(link.path));
-					console.log(`New backlinks:`, newBacklinks.map(f => f.basename));
-					
-					if (newBacklinks.length > 0) {
-						console.log(`Expanding left from ${nodeNote.basename} with ${newBacklinks.length} new links`);
-						await this.expandCanvas(canvasFile, nodeNote, 'left');
-						expanded = true;
-						// Update existing paths after expansion
-						const updatedContent = await this.app.vault.read(canvasFile);
-						const updatedData = JSON.parse(updatedContent);
-						updatedData.nodes.forEach((n: any) => existingPaths.add(n.file));
-					}
-				}
-			}
+	constructor(app: App, entries: CanvasHistoryEntry[], onChoose: (steps: number) => void) {
+		super(app);
+		this.entries = entries;
+		this.onChoose = onChoose;
+		this.setPlaceholder('Choose a change to undo it and everything after it');
+	}
 
-			if (expanded) {
-				console.log(`Canvas expanded ${direction}!`);
-				new Notice(`Canvas expanded ${direction}!`);
-			} else {
-				console.log(`No expansion needed for ${direction}`);
-			}
+	getSuggestions(query: string): CanvasHistoryEntry[] {
+		const lowerQuery = query.toLowerCase();
+		return this.entries.slice().reverse().filter(entry => entry.operation.toLowerCase().includes(lowerQuery));
+	}
 
-		} catch (error) {
-			console.error('Error expanding canvas:', error);
-		}
+	renderSuggestion(entry: CanvasHistoryEntry, el: HTMLElement) {
+		el.createEl('div', {text: entry.operation});
+		el.createEl('small', {text: `${new Date(entry.time).toLocaleString()} · ${entry.added} added, ${entry.removed} removed`});
+	}
+
+	onChooseSuggestion(entry: CanvasHistoryEntry, evt: MouseEvent | KeyboardEvent) {
+		this.onChoose(this.entries.length - this.entries.indexOf(entry));
 	}
 }
 
@@ -1078,6 +6103,60 @@ class CanvasAutoGenSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Refresh existing canvas')
+			.setDesc('When a canvas already exists for the note, update it with new links instead of only opening it')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.refreshExistingCanvas)
+				.onChange(async (value) => {
+					this.plugin.settings.refreshExistingCanvas = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Stale nodes on refresh')
+			.setDesc('What to do with generated nodes and edges whose links are gone. Nodes you moved, resized or colored are never removed.')
+			.addDropdown(dropdown => dropdown
+				.addOption('flag', 'Flag in red')
+				.addOption('remove', 'Remove')
+				.setValue(this.plugin.settings.staleNodeAction)
+				.onChange(async (value) => {
+					this.plugin.settings.staleNodeAction = value as 'flag' | 'remove';
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Live sync generated canvases')
+			.setDesc('Update open generated canvases when their notes change links or are renamed or deleted')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.liveSyncCanvases)
+				.onChange(async (value) => {
+					this.plugin.settings.liveSyncCanvases = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Output folder')
+			.setDesc('Folder where new canvases are created. Leave empty to create each canvas next to its note.')
+			.addText(text => text
+				.setPlaceholder('Maps')
+				.setValue(this.plugin.settings.outputFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.outputFolder = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Canvas file name')
+			.setDesc('Name of new canvases, relative to the output folder. {{basename}} is replaced with the note name.')
+			.addText(text => text
+				.setPlaceholder('{{basename}}_canvas')
+				.setValue(this.plugin.settings.canvasNameTemplate)
+				.onChange(async (value) => {
+					this.plugin.settings.canvasNameTemplate = value;
+					await this.plugin.saveSettings();
+				}));
+
 		new Setting(containerEl)
 			.setName('Canvas Width')
 			.setDesc('Default width for generated canvases')
@@ -1104,9 +6183,9 @@ class CanvasAutoGenSettingTab extends PluginSettingTab {
 
 		new Setting(containerEl)
 			.setName('Link Depth')
-			.setDesc('Number of levels of links to include in the canvas (1 = immediate links only, 2 = links of links, etc.)')
+			.setDesc('Number of levels of forward links to include in the canvas (1 = immediate links only, 2 = links of links, etc.)')
 			.addSlider(slider => slider
-				.setLimits(1, 5, 1)
+				.setLimits(0, 5, 1)
 				.setValue(this.plugin.settings.linkDepth)
 				.setDynamicTooltip()
 				.onChange(async (value) => {
@@ -1115,13 +6194,330 @@ class CanvasAutoGenSettingTab extends PluginSettingTab {
 				}));
 
 		new Setting(containerEl)
-			.setName('Auto-expand canvas')
-			.setDesc('Automatically expand the canvas when you click on nodes near the edges (click left nodes to expand left, right nodes to expand right)')
+			.setName('Backlink depth')
+			.setDesc('Number of levels of backlinks to include in the canvas (1 = notes linking here, 2 = notes linking to those, etc.)')
+			.addSlider(slider => slider
+				.setLimits(0, 5, 1)
+				.setValue(this.plugin.settings.backlinkDepth)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.backlinkDepth = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Link direction')
+			.setDesc('Follow every link of the notes reached, or keep following one direction only')
+			.addDropdown(dropdown => {
+				LINK_DIRECTIONS.forEach(direction => dropdown.addOption(direction.id, direction.name));
+				dropdown
+					.setValue(this.plugin.settings.linkDirection)
+					.onChange(async (value) => {
+						this.plugin.settings.linkDirection = value as LinkDirection;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Node limit')
+			.setDesc('Collecting notes stops at this many. You are asked before a canvas that hits the limit is created.')
+			.addSlider(slider => slider
+				.setLimits(100, 5000, 100)
+				.setValue(this.plugin.settings.maxCanvasNodes)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.maxCanvasNodes = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Default layout')
+			.setDesc('How notes are arranged on generated canvases. Use "Generate Canvas with Layout..." to pick another one for a single canvas.')
+			.addDropdown(dropdown => {
+				LAYOUT_ENGINES.forEach(engine => dropdown.addOption(engine.id, engine.name));
+				dropdown
+					.setValue(this.plugin.settings.defaultLayout)
+					.onChange(async (value) => {
+						this.plugin.settings.defaultLayout = value as LayoutId;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Node ordering')
+			.setDesc('How notes are ordered within each column. Barycenter and median reorder columns to reduce crossing edges.')
+			.addDropdown(dropdown => dropdown
+				.addOption('barycenter', 'Fewest crossings (barycenter)')
+				.addOption('median', 'Fewest crossings (median)')
+				.addOption('alphabetical', 'Alphabetical')
+				.setValue(this.plugin.settings.layerOrdering)
+				.onChange(async (value) => {
+					this.plugin.settings.layerOrdering = value as LayerOrdering;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Expand handles')
+			.setDesc('Show handles on the left and right edge of canvas nodes that expand backlinks or forward links of that note. Right-click a node for more options.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.showExpandHandles)
+				.onChange(async (value) => {
+					this.plugin.settings.showExpandHandles = value;
+					await this.plugin.saveSettings();
+					if (!value) this.plugin.removeExpandHandles();
+				}));
+
+		containerEl.createEl('h3', {text: 'Other link targets'});
+
+		new Setting(containerEl)
+			.setName('Include attachments')
+			.setDesc('Show linked images, PDFs and other files as nodes')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.includeAttachments)
+				.onChange(async (value) => {
+					this.plugin.settings.includeAttachments = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Include canvases')
+			.setDesc('Show linked canvases as nodes')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.includeCanvases)
+				.onChange(async (value) => {
+					this.plugin.settings.includeCanvases = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Include unresolved links')
+			.setDesc('Show links to notes that don\'t exist yet as dashed placeholders')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.includeUnresolvedLinks)
+				.onChange(async (value) => {
+					this.plugin.settings.includeUnresolvedLinks = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Template folder')
+			.setDesc('Templates offered when creating a note from a placeholder (empty for all notes)')
+			.addText(text => text
+				.setPlaceholder('Templates')
+				.setValue(this.plugin.settings.templateFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.templateFolder = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Link granularity')
+			.setDesc('Whether links to a heading or block point at the whole note or get a node for that section')
+			.addDropdown(dropdown => dropdown
+				.addOption('note', 'Whole notes')
+				.addOption('section', 'Headings and blocks')
+				.setValue(this.plugin.settings.linkGranularity)
+				.onChange(async (value) => {
+					this.plugin.settings.linkGranularity = value as 'note' | 'section';
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Split center note into headings')
+			.setDesc('Show one node per heading of the center note, with each link starting from the heading it appears under')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.splitCenterNote)
+				.onChange(async (value) => {
+					this.plugin.settings.splitCenterNote = value;
+					await this.plugin.saveSettings();
+				}));
+
+		containerEl.createEl('h3', {text: 'Edges'});
+
+		new Setting(containerEl)
+			.setName('Edge labels')
+			.setDesc('What generated edges show, so you can see why two notes are connected')
+			.addDropdown(dropdown => dropdown
+				.addOption('none', 'Nothing')
+				.addOption('count', 'Number of links')
+				.addOption('alias', 'Alias used in the link')
+				.addOption('context', 'Sentence around the link')
+				.setValue(this.plugin.settings.edgeLabels)
+				.onChange(async (value) => {
+					this.plugin.settings.edgeLabels = value as EdgeLabelMode;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Color edges by link frequency')
+			.setDesc('Green for notes linked 2-3 times, cyan for 4-6 and purple for 7 or more')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.edgeWeightColors)
+				.onChange(async (value) => {
+					this.plugin.settings.edgeWeightColors = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Heading for synced links')
+			.setDesc('Links for edges drawn on a canvas are added under this heading by the Sync Edges to Notes command')
+			.addText(text => text
+				.setPlaceholder('## Related')
+				.setValue(this.plugin.settings.relatedHeading)
+				.onChange(async (value) => {
+					this.plugin.settings.relatedHeading = value.trim() || DEFAULT_SETTINGS.relatedHeading;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Report deleted edges')
+			.setDesc('When syncing edges, list links whose edges were deleted from a generated canvas. Links are never removed automatically.')
 			.addToggle(toggle => toggle
-				.setValue(this.plugin.settings.autoExpandCanvas)
+				.setValue(this.plugin.settings.reportDeletedEdges)
+				.onChange(async (value) => {
+					this.plugin.settings.reportDeletedEdges = value;
+					await this.plugin.saveSettings();
+				}));
+
+		containerEl.createEl('h3', {text: 'Paths between notes'});
+
+		new Setting(containerEl)
+			.setName('Maximum path length')
+			.setDesc('Longest connection, in links, searched for between two notes')
+			.addSlider(slider => slider
+				.setLimits(1, 12, 1)
+				.setValue(this.plugin.settings.maxPathLength)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.maxPathLength = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Number of paths')
+			.setDesc('Draw the k shortest paths. 0 draws every path of the shortest length.')
+			.addSlider(slider => slider
+				.setLimits(0, 10, 1)
+				.setValue(this.plugin.settings.pathCount)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.pathCount = value;
+					await this.plugin.saveSettings();
+				}));
+
+		containerEl.createEl('h3', {text: 'Vault overview'});
+
+		new Setting(containerEl)
+			.setName('Node budget')
+			.setDesc('Most nodes drawn on the vault overview, counting clusters and summaries. Beyond it the least connected notes of each cluster are listed in a summary node and the smallest clusters are folded into one.')
+			.addSlider(slider => slider
+				.setLimits(50, 1000, 50)
+				.setValue(this.plugin.settings.overviewNodeBudget)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.overviewNodeBudget = value;
+					await this.plugin.saveSettings();
+				}));
+
+		containerEl.createEl('h3', {text: 'Colors and groups'});
+
+		new Setting(containerEl)
+			.setName('Color rules')
+			.setDesc('One rule per line, the first match wins: folder:People/** -> 2, tag:project -> green or type: person -> #ff8800')
+			.addTextArea(text => text
+				.setPlaceholder('folder:People/** -> purple')
+				.setValue(this.plugin.settings.colorRules.join('\n'))
+				.onChange(async (value) => {
+					this.plugin.settings.colorRules = parseRuleLines(value);
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Group nodes by')
+			.setDesc('Wrap notes that share a folder or property value in a labeled group')
+			.addDropdown(dropdown => dropdown
+				.addOption('none', 'No groups')
+				.addOption('folder', 'Folder')
+				.addOption('property', 'Frontmatter property')
+				.setValue(this.plugin.settings.groupBy)
+				.onChange(async (value) => {
+					this.plugin.settings.groupBy = value as 'none' | 'folder' | 'property';
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Group property')
+			.setDesc('Frontmatter property used when grouping by property')
+			.addText(text => text
+				.setPlaceholder('type')
+				.setValue(this.plugin.settings.groupProperty)
 				.onChange(async (value) => {
-					this.plugin.settings.autoExpandCanvas = value;
+					this.plugin.settings.groupProperty = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		containerEl.createEl('h3', {text: 'Filters'});
+
+		renderFilterSettings(containerEl, this.plugin.settings.filters, async () => {
+			await this.plugin.saveSettings();
+		});
+
+		containerEl.createEl('h3', {text: 'Profiles'});
+
+		this.plugin.settings.profiles.forEach((profile, index) => {
+			new Setting(containerEl)
+				.setName(profile.name)
+				.setDesc(describeProfile(profile))
+				.addButton(button => button
+					.setButtonText('Update from settings')
+					.setTooltip('Replace this profile with the settings above')
+					.onClick(async () => {
+						this.plugin.settings.profiles[index] = this.createProfile(profile.name);
+						await this.plugin.saveSettings();
+						this.display();
+					}))
+				.addButton(button => button
+					.setButtonText('Delete')
+					.setWarning()
+					.onClick(async () => {
+						this.plugin.settings.profiles.splice(index, 1);
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+		});
+
+		let profileName = '';
+		new Setting(containerEl)
+			.setName('New profile')
+			.setDesc('Save the depth, direction, layout, filters, colors, groups, edge labels and output location above under a name')
+			.addText(text => text
+				.setPlaceholder('Profile name')
+				.onChange((value) => {
+					profileName = value.trim();
+				}))
+			.addButton(button => button
+				.setButtonText('Save')
+				.setCta()
+				.onClick(async () => {
+					if (!profileName) {
+						new Notice('Please enter a name for the profile.');
+						return;
+					}
+					const profiles = this.plugin.settings.profiles;
+					const existing = profiles.findIndex(profile => profile.name === profileName);
+					if (existing === -1) {
+						profiles.push(this.createProfile(profileName));
+					} else {
+						profiles[existing] = this.createProfile(profileName);
+					}
 					await this.plugin.saveSettings();
+					this.display();
 				}));
 	}
+
+	// A profile holding the current settings
+	createProfile(name: string): GenerationProfile {
+		const { filters, styling, ...options } = this.plugin.getGenerationOptions();
+		return { name, ...options, filters: { ...filters }, styling: { ...styling } };
+	}
 }